@@ -0,0 +1,157 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/*
+ * WebSocket to OSC/UDP bridge for VMC protocol output.
+ * Every binary WebSocket message is forwarded as one UDP datagram.
+ *
+ * Usage: node scripts/vmc-bridge.js [--ws-port 39540] [--host 127.0.0.1] [--port 39539]
+ */
+
+const crypto = require('crypto');
+const dgram = require('dgram');
+const http = require('http');
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Largest UDP datagram. VMC bundles are a few KB.
+const MAX_MESSAGE_SIZE = 65507;
+const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+function getArg(name, defaultValue) {
+    const idx = process.argv.indexOf(`--${name}`);
+    return idx >= 0 && idx + 1 < process.argv.length ? process.argv[idx + 1] : defaultValue;
+}
+
+const wsPort = Number(getArg('ws-port', 39540));
+const oscHost = getArg('host', '127.0.0.1');
+const oscPort = Number(getArg('port', 39539));
+
+const udp = dgram.createSocket('udp4');
+
+/**
+ * Minimal server side WebSocket frame parser (RFC 6455).
+ * Fragmented messages are reassembled. Extensions are not supported.
+ * Messages larger than MAX_MESSAGE_SIZE close the connection.
+ */
+function handleConnection(socket) {
+    let buffer = Buffer.alloc(0);
+    let fragments = [];
+    let fragmentsLength = 0;
+    let closed = false;
+
+    const sendControl = (opcode, payload = Buffer.alloc(0)) => {
+        socket.write(Buffer.concat([Buffer.from([0x80 | opcode, payload.length]), payload]));
+    };
+    const rejectTooBig = () => {
+        const code = Buffer.alloc(2);
+        code.writeUInt16BE(CLOSE_MESSAGE_TOO_BIG);
+        sendControl(0x8, code);
+        socket.end(() => socket.destroy());
+        closed = true;
+        buffer = Buffer.alloc(0);
+        fragments = [];
+    };
+
+    socket.on('data', (data) => {
+        if (closed) return;
+        buffer = Buffer.concat([buffer, data]);
+
+        while (buffer.length >= 2) {
+            const fin = (buffer[0] & 0x80) !== 0;
+            const opcode = buffer[0] & 0x0f;
+            const masked = (buffer[1] & 0x80) !== 0;
+            let length = buffer[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (buffer.length < 4) return;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffer.length < 10) return;
+                length = Number(buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            if (fragmentsLength + length > MAX_MESSAGE_SIZE) {
+                rejectTooBig();
+                return;
+            }
+            const maskOffset = offset;
+            if (masked) offset += 4;
+            if (buffer.length < offset + length) return;
+
+            const payload = Buffer.from(buffer.subarray(offset, offset + length));
+            if (masked) {
+                for (let i = 0; i < payload.length; ++i) {
+                    payload[i] ^= buffer[maskOffset + (i % 4)];
+                }
+            }
+            buffer = buffer.subarray(offset + length);
+
+            switch (opcode) {
+                case 0x0:   // continuation
+                case 0x1:   // text
+                case 0x2:   // binary
+                    fragments.push(payload);
+                    fragmentsLength += payload.length;
+                    if (fin) {
+                        udp.send(Buffer.concat(fragments), oscPort, oscHost);
+                        fragments = [];
+                        fragmentsLength = 0;
+                    }
+                    break;
+                case 0x8:   // close
+                    sendControl(0x8);
+                    socket.end();
+                    closed = true;
+                    return;
+                case 0x9:   // ping
+                    sendControl(0xA, payload);
+                    break;
+                default:
+                    break;
+            }
+        }
+    });
+    socket.on('error', (e) => console.error(e.message));
+}
+
+const server = http.createServer((req, res) => {
+    res.writeHead(426, {'Content-Type': 'text/plain'});
+    res.end('WebSocket connections only\n');
+});
+
+server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', '',
+    ].join('\r\n'));
+
+    console.log(`Client connected from ${socket.remoteAddress}`);
+    handleConnection(socket);
+});
+
+server.listen(wsPort, () => {
+    console.log(`VMC bridge listening on ws://localhost:${wsPort}, forwarding to ${oscHost}:${oscPort}`);
+});
@@ -15,7 +15,7 @@ Copyright (C) 2021  The v3d Authors.
  */
 
 import {V3DCore} from "v3d-core/dist/src";
-import {ArcRotateCamera, Nullable, Quaternion, Scene} from "@babylonjs/core";
+import {ArcRotateCamera, Nullable, Quaternion, Scene, TransformNode} from "@babylonjs/core";
 import {Color3, Vector3} from "@babylonjs/core/Maths";
 import {Engine} from "@babylonjs/core/Engines";
 import {Camera} from "@babylonjs/core";
@@ -36,12 +36,26 @@ import {KeysMatching, LR} from "./helper/utils";
 import {
     CloneableQuaternionMap,
     cloneableQuaternionToQuaternion,
+    decomposeSwingTwist,
 } from "./helper/quaternion";
 import {Holistic} from "@mediapipe/holistic";
 import {BoneOptions, BoneState, HolisticState} from "./v3d-web";
+import {VideoInputSource} from "./helper/input-source";
+import {BoneRotationDecoder} from "./helper/transport";
+import {InferenceScheduler} from "./helper/scheduler";
+import {
+    ARKitBlendshape,
+    BrowLabel,
+    findBrowLabels,
+    findPerfectSyncLabels,
+    unpackBlendshapes
+} from "./helper/blendshape";
+import {EMOTIONS, unpackEmotions} from "./helper/emotion";
+import {IdleLayer} from "./helper/idle";
+import {LipSyncFrame, Visemes} from "./helper/lip-sync-estimator";
 
 const IS_DEBUG = false;
-const clock = new Clock(), textDecode = new TextDecoder();
+const clock = new Clock();
 export let debugInfo: Nullable<DebugInfo>;
 
 // Can only have one VRM model at this time
@@ -49,11 +63,15 @@ export async function createScene(
     engine: Engine,
     workerPose: Nullable<Comlink.Remote<Poses>>,
     boneState: BoneState,
+    boneRotationDecoder: BoneRotationDecoder,
     boneOptions: BoneOptions,
     holistic: Holistic,
     holisticState: HolisticState,
+    scheduler: InferenceScheduler,
+    idleLayer: IdleLayer,
     vrmFile: File | string,
-    videoElement: HTMLVideoElement): Promise<Nullable<[V3DCore, VRMManager]>> {
+    videoElement: HTMLVideoElement,
+    inputSource: VideoInputSource): Promise<Nullable<[V3DCore, VRMManager]>> {
 
     if (!workerPose) return null;
 
@@ -79,7 +97,8 @@ export async function createScene(
     v3DCore.renderingPipeline.depthOfFieldEnabled = false;
 
     // Pose web worker
-    await workerPose.setBonesHierarchyTree(vrmManager.transformNodeTree);
+    boneRotationDecoder.setLayout(
+        await workerPose.setBonesHierarchyTree(vrmManager.transformNodeTree));
 
     // Disable auto animation
     v3DCore.springBonesAutoUpdate = false;
@@ -87,21 +106,35 @@ export async function createScene(
     // Update functions
     v3DCore.updateBeforeRenderFunction(
         () => {
-            // Half input fps. This version of Holistic is heavy on CPU time.
-            // Wait until they fix web worker (https://github.com/google/mediapipe/issues/2506).
-            if (holisticState.holisticUpdate && holisticState.ready && !videoElement.paused && videoElement.readyState > 2) {
-                holistic.send({image: videoElement})
+            // Frames are captured by HolisticWorkerPipeline instead
+            if (holisticState.workerInference) return;
+
+            // Frame stepping on pre-recorded sources. Send regardless of playback state.
+            if (inputSource.stepPending && holisticState.ready && videoElement.readyState > 1) {
+                if (scheduler.inFlight) return;
+                inputSource.consumeStep();
+                scheduler.begin();
+                holisticState.frameTime = videoElement.currentTime;
+                holistic.send({image: videoElement}).catch(() => scheduler.cancel());
+                return;
+            }
+            // Send only when previous frame is fully processed.
+            if (holisticState.ready && !videoElement.paused && videoElement.readyState > 2 && scheduler.shouldSend()) {
+                scheduler.begin();
+                holisticState.frameTime = videoElement.currentTime;
+                holistic.send({image: videoElement}).catch(() => scheduler.cancel());
             }
-            holisticState.holisticUpdate = !holisticState.holisticUpdate;
         }
     );
     v3DCore.updateAfterRenderFunction(
         () => {
             if (boneState.bonesNeedUpdate) {
                 updatePose(vrmManager, boneState, boneOptions);
+                idleLayer.capture(vrmManager, boneState.boneRotations!);
                 updateSpringBones(vrmManager);
                 boneState.bonesNeedUpdate = false;
             }
+            idleLayer.apply(vrmManager, performance.now() / 1000, blinkLabels(vrmManager, boneOptions));
         }
     );
 
@@ -128,71 +161,182 @@ export function updateSpringBones(vrmManager: VRMManager) {
     vrmManager.update(deltaTime);
 }
 
-export function updateBuffer(data: Uint8Array, boneState: BoneState) {
-    let jsonStr = textDecode.decode(data);
-    let boneRotationsData: CloneableQuaternionMap = JSON.parse(jsonStr);
-    boneState.boneRotations = boneRotationsData;
-    boneState.bonesNeedUpdate = true;
-    (data as any) = null;
-    (jsonStr as any) = null;
-}
-
-export function updatePose(
-    vrmManager: VRMManager,
+export function updateBuffer(
+    data: Nullable<Float32Array>,
     boneState: BoneState,
-    boneOptions: BoneOptions
+    decoder: BoneRotationDecoder
 ) {
-    // Wait for buffer to fill
-    if (!boneState.boneRotations) return;
-
-    const resultBoneRotations = boneState.boneRotations;
+    if (!decoder.decode(data)) return;
+    boneState.boneRotations = decoder.boneRotations;
+    boneState.bonesNeedUpdate = true;
+}
 
-    vrmManager.morphing('A', resultBoneRotations['mouth'].x);
+// Optional blend shape groups per model
+interface ModelExpressionLabels {
+    perfectSync: Map<ARKitBlendshape, string>;
+    brows: BrowLabel[];
+}
+const modelLabelCache = new WeakMap<VRMManager, ModelExpressionLabels>();
+
+function getModelLabels(vrmManager: VRMManager) {
+    let modelLabels = modelLabelCache.get(vrmManager);
+    if (!modelLabels) {
+        const morphingList = vrmManager.getMorphingList();
+        modelLabels = {
+            perfectSync: findPerfectSyncLabels(morphingList),
+            brows: findBrowLabels(morphingList),
+        };
+        modelLabelCache.set(vrmManager, modelLabels);
+    }
+    return modelLabels;
+}
 
-    const resetExpressions = () => {
-        vrmManager.morphing('Neutral', 0);
-        vrmManager.morphing('Happy', 0);
-        vrmManager.morphing('Joy', 0);
-        vrmManager.morphing('Angry', 0);
-        vrmManager.morphing('Sad', 0);
-        vrmManager.morphing('Sorrow', 0);
-        vrmManager.morphing('Relaxed', 0);
-        vrmManager.morphing('Fun', 0);
-        vrmManager.morphing('Surprised', 0);
+/**
+ * Blend shape groups calcExpressionWeights drives for blinking.
+ * @param vrmManager VRMManager of model
+ * @param boneOptions Bone options
+ */
+export function blinkLabels(vrmManager: VRMManager, boneOptions: BoneOptions) {
+    const perfectSync = getModelLabels(vrmManager).perfectSync;
+    if (perfectSync.size > 0) {
+        return [perfectSync.get('eyeBlinkLeft'), perfectSync.get('eyeBlinkRight')]
+            .filter((l): l is string => !!l);
     }
+    return boneOptions.blinkLinkLR ? ['Blink'] : ['Blink_L', 'Blink_R'];
+}
+
+/**
+ * Calculate expression weights keyed by VRM blend shape group names.
+ * If the model has perfect sync blend shapes, they replace mouth and blink presets.
+ * @param boneRotations Bone rotations from worker
+ * @param boneOptions Bone options
+ * @param vrmManager VRMManager of model, to look up perfect sync blend shapes
+ * @param lipSync Audio lip sync, blended with visual mouth tracking by confidence
+ */
+export function calcExpressionWeights(
+    boneRotations: CloneableQuaternionMap,
+    boneOptions: BoneOptions,
+    vrmManager?: Nullable<VRMManager>,
+    lipSync?: Nullable<LipSyncFrame>
+) {
+    const visemeAIU = boneRotations['visemeAIU'], visemeEO = boneRotations['visemeEO'];
+    const weights: { [label: string]: number } = {
+        A: visemeAIU ? visemeAIU.x : boneRotations['mouth'].x,
+        I: visemeAIU ? visemeAIU.y : 0,
+        U: visemeAIU ? visemeAIU.z : 0,
+        E: visemeEO ? visemeEO.x : 0,
+        O: visemeEO ? visemeEO.y : 0,
+        Neutral: 0,
+        Happy: 0,
+        Joy: 0,
+        Angry: 0,
+        Sad: 0,
+        Sorrow: 0,
+        Relaxed: 0,
+        Fun: 0,
+        Surprised: 0,
+    };
 
-    // Update expression
-    resetExpressions();
     switch (boneOptions.expression) {
         case "Angry":
-            vrmManager.morphing('Angry', 1);
+            weights.Angry = 1;
             break;
         case "Happy":
-            vrmManager.morphing('Happy', 1);
-            vrmManager.morphing('Joy', 1);
+            weights.Happy = 1;
+            weights.Joy = 1;
             break;
         case "Relaxed":
-            vrmManager.morphing('Relaxed', 1);
-            vrmManager.morphing('Fun', 1);
+            weights.Relaxed = 1;
+            weights.Fun = 1;
             break;
         case "Sad":
-            vrmManager.morphing('Sad', 1);
-            vrmManager.morphing('Sorrow', 1);
+            weights.Sad = 1;
+            weights.Sorrow = 1;
             break;
         case "Surprised":
-            vrmManager.morphing('Surprised', 1);
+            weights.Surprised = 1;
             break;
+        case "Auto": {
+            const emotions = unpackEmotions(boneRotations);
+            if (!emotions) {
+                weights.Neutral = 1;
+                break;
+            }
+            weights.Happy = weights.Joy = emotions.Happy;
+            weights.Angry = emotions.Angry;
+            weights.Sad = weights.Sorrow = emotions.Sad;
+            weights.Relaxed = weights.Fun = emotions.Relaxed;
+            weights.Surprised = emotions.Surprised;
+            weights.Neutral = 1 - Math.min(1, EMOTIONS.reduce((p, k) => p + emotions[k], 0));
+            break;
+        }
         case "Neutral": // fall through
         default:
-            vrmManager.morphing('Neutral', 1);
+            weights.Neutral = 1;
             break;
     }
 
     if (boneOptions.blinkLinkLR) {
-        vrmManager.morphing('Blink', resultBoneRotations['blink'].z)
+        weights.Blink = boneRotations['blink'].z;
     } else {
-        vrmManager.morphing('Blink_L', resultBoneRotations['blink'].x)
-        vrmManager.morphing('Blink_R', resultBoneRotations['blink'].y)
+        weights.Blink_L = boneRotations['blink'].x;
+        weights.Blink_R = boneRotations['blink'].y;
+    }
+
+    // Visual confidence is stored in mouth.y
+    let audioWeight = 0;
+    if (lipSync && lipSync.confidence > 0) {
+        audioWeight = lipSync.confidence / (lipSync.confidence + boneRotations['mouth'].y);
+        for (const k of ['A', 'I', 'U', 'E', 'O'] as (keyof Visemes)[]) {
+            weights[k] = weights[k] * (1 - audioWeight) + lipSync.visemes[k] * audioWeight;
+        }
+    }
+
+    if (!vrmManager) return weights;
+    const modelLabels = getModelLabels(vrmManager);
+
+    for (const b of modelLabels.brows) {
+        const brow = boneRotations[b.isLeft ? 'leftBrow' : 'rightBrow'];
+        if (brow) weights[b.label] = brow[b.component];
+    }
+
+    const perfectSyncLabels = modelLabels.perfectSync;
+    const blendshapes = unpackBlendshapes(boneRotations);
+    if (perfectSyncLabels.size === 0 || !blendshapes) return weights;
+
+    // Presets would double up with perfect sync
+    weights.A = weights.I = weights.U = weights.E = weights.O = 0;
+    if (boneOptions.blinkLinkLR) {
+        weights.Blink = 0;
+        blendshapes.eyeBlinkLeft = blendshapes.eyeBlinkRight = boneRotations['blink'].z;
+    } else {
+        weights.Blink_L = weights.Blink_R = 0;
+    }
+    if (lipSync && audioWeight > 0) {
+        const audioOpen = Math.min(1, Object.values(lipSync.visemes).reduce((p, c) => p + c, 0));
+        blendshapes.jawOpen = blendshapes.jawOpen * (1 - audioWeight) + audioOpen * audioWeight;
+    }
+    for (const [k, label] of perfectSyncLabels.entries()) {
+        weights[label] = blendshapes[k];
+    }
+
+    return weights;
+}
+
+export function updatePose(
+    vrmManager: VRMManager,
+    boneState: BoneState,
+    boneOptions: BoneOptions
+) {
+    // Wait for buffer to fill
+    if (!boneState.boneRotations) return;
+
+    const resultBoneRotations = boneState.boneRotations;
+
+    // Update expressions
+    for (const [k, v] of Object.entries(calcExpressionWeights(
+        resultBoneRotations, boneOptions, vrmManager, boneState.lipSync))) {
+        vrmManager.morphing(k, v);
     }
 
     if (vrmManager.humanoidBone.leftEye)
@@ -216,6 +360,12 @@ export function updatePose(
         resultBoneRotations['hips']);
     vrmManager.humanoidBone.spine.rotationQuaternion = cloneableQuaternionToQuaternion(
         resultBoneRotations['spine']);
+    // Optional in some models, look up by name
+    for (const k of ['chest', 'upperChest', 'leftShoulder', 'rightShoulder']) {
+        const node = vrmManager.humanoidBone.nodeMap[k];
+        if (node && resultBoneRotations[k])
+            node.rotationQuaternion = cloneableQuaternionToQuaternion(resultBoneRotations[k]);
+    }
     vrmManager.humanoidBone.neck.rotationQuaternion = cloneableQuaternionToQuaternion(
         resultBoneRotations['neck']);
     vrmManager.humanoidBone.head.rotationQuaternion = cloneableQuaternionToQuaternion(
@@ -241,4 +391,66 @@ export function updatePose(
         vrmManager.humanoidBone[footKey]!.rotationQuaternion = cloneableQuaternionToQuaternion(
             resultBoneRotations[footKey]);
     }
+
+    updateTwistBones(vrmManager, resultBoneRotations);
+}
+
+interface TwistBone {
+    node: TransformNode;
+    rest: Quaternion;
+}
+// Non-humanoid twist bones per model, keyed by the humanoid bone they are attached to
+const twistBoneCache = new WeakMap<VRMManager, Map<string, TwistBone[]>>();
+// Share of twist on twist bones
+const TWIST_BONE_WEIGHT = 0.5;
+
+/**
+ * Find twist helper bones, e.g. "J_Sec_L_UpperArmTwist", "LeftForeArmTwist" or "lowerarm_twist_r".
+ * @param vrmManager VRMManager of model
+ */
+function findTwistBones(vrmManager: VRMManager) {
+    const ret = new Map<string, TwistBone[]>();
+    const humanoidNodes = new Set(Object.values(vrmManager.humanoidBone.nodeMap));
+    for (const node of vrmManager.rootMesh.getDescendants(false)) {
+        if (!(node instanceof TransformNode) || humanoidNodes.has(node)) continue;
+        const name = node.name.toLowerCase();
+        if (!name.includes('twist')) continue;
+        const part = /upper_?arm/.test(name) ? 'UpperArm' : /(fore|lower)_?arm/.test(name) ? 'LowerArm' : null;
+        const side = /left|(^|[^a-z])l([^a-z]|$)/.test(name) ? 'left' :
+            /right|(^|[^a-z])r([^a-z]|$)/.test(name) ? 'right' : null;
+        if (!part || !side) continue;
+        const key = side + part;
+        ret.set(key, (ret.get(key) ?? []).concat({
+            node: node,
+            rest: node.rotationQuaternion?.clone() ?? Quaternion.Identity(),
+        }));
+    }
+    return ret;
+}
+
+/**
+ * Spread roll to twist bones, so skinned arms do not candy-wrap.
+ * Upper arm twist bones counter-rotate the upper arm roll, lower arm twist bones follow the hand roll.
+ */
+function updateTwistBones(vrmManager: VRMManager, boneRotations: CloneableQuaternionMap) {
+    let twistBones = twistBoneCache.get(vrmManager);
+    if (!twistBones) {
+        twistBones = findTwistBones(vrmManager);
+        twistBoneCache.set(vrmManager, twistBones);
+    }
+    if (twistBones.size === 0) return;
+
+    for (const k of LR) {
+        const upperArm = boneRotations[`${k}UpperArm`], hand = boneRotations[`${k}Hand`];
+        const upperArmTwist = upperArm ? decomposeSwingTwist(
+            cloneableQuaternionToQuaternion(upperArm), Vector3.Right())[2] : 0;
+        const handTwist = hand ? decomposeSwingTwist(
+            cloneableQuaternionToQuaternion(hand), Vector3.Right())[2] : 0;
+        for (const [part, angle] of [['UpperArm', -upperArmTwist], ['LowerArm', handTwist]] as [string, number][]) {
+            for (const b of twistBones.get(k + part) ?? []) {
+                b.node.rotationQuaternion = Quaternion.RotationAxis(
+                    Vector3.Right(), angle * TWIST_BONE_WEIGHT).multiply(b.rest);
+            }
+        }
+    }
 }
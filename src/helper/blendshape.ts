@@ -0,0 +1,293 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, Vector3} from "@babylonjs/core";
+import {CloneableQuaternionMap, initWeightBones, packWeights, unpackWeights} from "./quaternion";
+import {rangeCap, remapRangeWithCap} from "./utils";
+
+// Same order as MediaPipe Face Landmarker outputs (without _neutral)
+export const ARKIT_BLENDSHAPES = [
+    'browDownLeft', 'browDownRight', 'browInnerUp', 'browOuterUpLeft', 'browOuterUpRight',
+    'cheekPuff', 'cheekSquintLeft', 'cheekSquintRight',
+    'eyeBlinkLeft', 'eyeBlinkRight',
+    'eyeLookDownLeft', 'eyeLookDownRight', 'eyeLookInLeft', 'eyeLookInRight',
+    'eyeLookOutLeft', 'eyeLookOutRight', 'eyeLookUpLeft', 'eyeLookUpRight',
+    'eyeSquintLeft', 'eyeSquintRight', 'eyeWideLeft', 'eyeWideRight',
+    'jawForward', 'jawLeft', 'jawOpen', 'jawRight',
+    'mouthClose', 'mouthDimpleLeft', 'mouthDimpleRight', 'mouthFrownLeft', 'mouthFrownRight',
+    'mouthFunnel', 'mouthLeft', 'mouthLowerDownLeft', 'mouthLowerDownRight',
+    'mouthPressLeft', 'mouthPressRight', 'mouthPucker', 'mouthRight',
+    'mouthRollLower', 'mouthRollUpper', 'mouthShrugLower', 'mouthShrugUpper',
+    'mouthSmileLeft', 'mouthSmileRight', 'mouthStretchLeft', 'mouthStretchRight',
+    'mouthUpperUpLeft', 'mouthUpperUpRight', 'noseSneerLeft', 'noseSneerRight',
+    'tongueOut',
+] as const;
+export type ARKitBlendshape = typeof ARKIT_BLENDSHAPES[number];
+export type BlendshapeWeights = { [k in ARKitBlendshape]: number };
+
+// Weights are packed 4 per pseudo bone, i.e. blendshape0 ... blendshape12
+const BLENDSHAPE_BONE_PREFIX = 'blendshape';
+
+/*
+ * Face mesh indices. "Left" follows FACEMESH_LEFT_* naming, same as blink.
+ */
+const FACE = {
+    leftCheekEdge: 454, rightCheekEdge: 234,
+    forehead: 10, chin: 152,
+    noseTip: 1, noseBottom: 2, noseLeftWing: 327, noseRightWing: 98,
+    leftEyeTop: 386, leftEyeBottom: 374, leftEyeInner: 362, leftEyeOuter: 263, leftIris: 473,
+    rightEyeTop: 159, rightEyeBottom: 145, rightEyeInner: 133, rightEyeOuter: 33, rightIris: 468,
+    leftBrowInner: 336, leftBrowOuter: 300, rightBrowInner: 107, rightBrowOuter: 70,
+    mouthLeft: 291, mouthRight: 61,
+    upperLipTop: 0, upperLipBottom: 13, lowerLipTop: 14, lowerLipBottom: 17,
+    upperLipLeft: 267, upperLipRight: 37,
+    innerUpperLipLeft: 312, innerUpperLipRight: 82, innerLowerLipLeft: 317, innerLowerLipRight: 87,
+    leftCheek: 425, rightCheek: 205,
+};
+
+/*
+ * Measurement ranges, in face width units unless noted.
+ * Empirical values for a neutral adult face facing the camera.
+ */
+const RANGE = {
+    eyeClosed: 0.12, eyeOpen: 0.28, eyeWide: 0.4, eyeSquint: 0.18,    // eye height / eye width
+    lookHorizontal: [0.1, 0.6], lookVertical: [0.02, 0.12],           // iris offset / eye width
+    browNeutral: 0.1, browRaised: 0.16, browLowered: 0.07,
+    lipGapClosed: 0.02, lipGapOpen: 0.25,
+    chinNeutral: 0.55, chinOpen: 0.75,
+    jawSide: [0.02, 0.1], jawForward: [0.02, 0.08],
+    cornerRaise: [0, 0.06], cornerDrop: [0.01, 0.05],
+    cornerStretch: [0.22, 0.28], cornerDimple: [0.2, 0.25],
+    mouthWidthNeutral: 0.36, mouthWidthPucker: 0.28,
+    mouthSide: [0.01, 0.06],
+    upperLipNeutral: 0.03, upperLipRolled: 0.01,
+    lowerLipNeutral: 0.035, lowerLipRolled: 0.015,
+    noseToLipNeutral: 0.1, noseToLipRaised: 0.06,
+    lipToChinNeutral: 0.2, lipToChinRaised: 0.15,
+    sneerNeutral: 0.22, sneerRaised: 0.18,
+    cheekNeutral: 0.62, cheekPuffed: 0.7,
+};
+
+const remap = (v: number, low: number, high: number) => remapRangeWithCap(v, low, high, 0, 1);
+
+/**
+ * Estimate ARKit blendshape coefficients from refined face mesh landmarks (478 points).
+ * Landmarks are transformed into a face local frame first, so head rotation does not leak into results.
+ * This is a geometric estimate, tongueOut is not observable from the mesh.
+ * @param landmarks Face landmark positions indexed by face mesh index
+ */
+export function solveBlendshapes(landmarks: Vector3[]): BlendshapeWeights {
+    const weights = {} as BlendshapeWeights;
+    for (const k of ARKIT_BLENDSHAPES) weights[k] = 0;
+    if (landmarks.length < 478) return weights;
+
+    // Face local frame: X to face left, Y up, Z out of face. Unit length is face width.
+    const origin = landmarks[FACE.noseTip];
+    const width = landmarks[FACE.leftCheekEdge].subtract(landmarks[FACE.rightCheekEdge]);
+    const faceWidth = width.length();
+    if (faceWidth === 0) return weights;
+    const ex = width.normalize();
+    const up = landmarks[FACE.forehead].subtract(landmarks[FACE.chin]);
+    const ey = up.subtract(ex.scale(Vector3.Dot(up, ex))).normalize();
+    const ez = Vector3.Cross(ex, ey);
+    const local = (idx: number) => {
+        const d = landmarks[idx].subtract(origin);
+        return new Vector3(Vector3.Dot(d, ex), Vector3.Dot(d, ey), Vector3.Dot(d, ez)).scaleInPlace(1 / faceWidth);
+    };
+    const dist = (a: number, b: number) => Vector3.Distance(local(a), local(b));
+
+    // Eyes
+    const solveEye = (top: number, bottom: number, inner: number, outer: number, iris: number) => {
+        const eyeWidth = Math.max(dist(inner, outer), 1e-6);
+        const openness = dist(top, bottom) / eyeWidth;
+        const blink = 1 - remap(openness, RANGE.eyeClosed, RANGE.eyeOpen);
+
+        const innerPos = local(inner), outerPos = local(outer), irisPos = local(iris);
+        const axis = outerPos.subtract(innerPos);
+        const horizontal = (Vector3.Dot(irisPos.subtract(innerPos), axis) / axis.lengthSquared() - 0.5) * 2;
+        const vertical = (irisPos.y - (local(top).y + local(bottom).y) / 2) / eyeWidth;
+        return {
+            blink: blink,
+            wide: remap(openness, RANGE.eyeOpen, RANGE.eyeWide),
+            squint: remap(openness, RANGE.eyeOpen, RANGE.eyeSquint) * (1 - blink),
+            lookOut: remap(horizontal, RANGE.lookHorizontal[0], RANGE.lookHorizontal[1]),
+            lookIn: remap(-horizontal, RANGE.lookHorizontal[0], RANGE.lookHorizontal[1]),
+            lookUp: remap(vertical, RANGE.lookVertical[0], RANGE.lookVertical[1]),
+            lookDown: remap(-vertical, RANGE.lookVertical[0], RANGE.lookVertical[1]),
+        };
+    };
+    const leftEye = solveEye(FACE.leftEyeTop, FACE.leftEyeBottom, FACE.leftEyeInner, FACE.leftEyeOuter, FACE.leftIris);
+    const rightEye = solveEye(FACE.rightEyeTop, FACE.rightEyeBottom, FACE.rightEyeInner, FACE.rightEyeOuter, FACE.rightIris);
+    weights.eyeBlinkLeft = leftEye.blink;
+    weights.eyeBlinkRight = rightEye.blink;
+    weights.eyeWideLeft = leftEye.wide;
+    weights.eyeWideRight = rightEye.wide;
+    weights.eyeSquintLeft = leftEye.squint;
+    weights.eyeSquintRight = rightEye.squint;
+    weights.eyeLookOutLeft = leftEye.lookOut;
+    weights.eyeLookOutRight = rightEye.lookOut;
+    weights.eyeLookInLeft = leftEye.lookIn;
+    weights.eyeLookInRight = rightEye.lookIn;
+    weights.eyeLookUpLeft = leftEye.lookUp;
+    weights.eyeLookUpRight = rightEye.lookUp;
+    weights.eyeLookDownLeft = leftEye.lookDown;
+    weights.eyeLookDownRight = rightEye.lookDown;
+
+    // Brows
+    const browHeight = (brow: number, eye: number) => local(brow).y - local(eye).y;
+    const leftInner = browHeight(FACE.leftBrowInner, FACE.leftEyeTop);
+    const rightInner = browHeight(FACE.rightBrowInner, FACE.rightEyeTop);
+    weights.browInnerUp = remap((leftInner + rightInner) / 2, RANGE.browNeutral, RANGE.browRaised);
+    weights.browDownLeft = remap(leftInner, RANGE.browNeutral, RANGE.browLowered);
+    weights.browDownRight = remap(rightInner, RANGE.browNeutral, RANGE.browLowered);
+    weights.browOuterUpLeft = remap(
+        browHeight(FACE.leftBrowOuter, FACE.leftEyeTop), RANGE.browNeutral, RANGE.browRaised);
+    weights.browOuterUpRight = remap(
+        browHeight(FACE.rightBrowOuter, FACE.rightEyeTop), RANGE.browNeutral, RANGE.browRaised);
+
+    // Jaw
+    const lipGap = dist(FACE.upperLipBottom, FACE.lowerLipTop);
+    const chin = local(FACE.chin);
+    const chinDrop = remap(-chin.y, RANGE.chinNeutral, RANGE.chinOpen);
+    weights.jawOpen = remap(lipGap, RANGE.lipGapClosed, RANGE.lipGapOpen);
+    weights.mouthClose = rangeCap(chinDrop - weights.jawOpen, 0, 1);
+    weights.jawLeft = remap(chin.x, RANGE.jawSide[0], RANGE.jawSide[1]);
+    weights.jawRight = remap(-chin.x, RANGE.jawSide[0], RANGE.jawSide[1]);
+    weights.jawForward = remap(chin.z, RANGE.jawForward[0], RANGE.jawForward[1]);
+
+    // Mouth corners, relative to lip center
+    const lipCenter = local(FACE.upperLipBottom).add(local(FACE.lowerLipTop)).scaleInPlace(0.5);
+    const leftCorner = local(FACE.mouthLeft), rightCorner = local(FACE.mouthRight);
+    const solveCorner = (corner: Vector3) => {
+        const raise = corner.y - lipCenter.y;
+        const spread = Math.abs(corner.x);
+        const smile = remap(raise, RANGE.cornerRaise[0], RANGE.cornerRaise[1]);
+        return {
+            smile: smile,
+            frown: remap(-raise, RANGE.cornerDrop[0], RANGE.cornerDrop[1]),
+            stretch: remap(spread, RANGE.cornerStretch[0], RANGE.cornerStretch[1]) * (1 - smile),
+            dimple: Math.min(smile, remap(spread, RANGE.cornerDimple[0], RANGE.cornerDimple[1])),
+        };
+    };
+    const left = solveCorner(leftCorner), right = solveCorner(rightCorner);
+    weights.mouthSmileLeft = left.smile;
+    weights.mouthSmileRight = right.smile;
+    weights.mouthFrownLeft = left.frown;
+    weights.mouthFrownRight = right.frown;
+    weights.mouthStretchLeft = left.stretch;
+    weights.mouthStretchRight = right.stretch;
+    weights.mouthDimpleLeft = left.dimple;
+    weights.mouthDimpleRight = right.dimple;
+
+    // Mouth shape
+    const mouthWidth = Vector3.Distance(leftCorner, rightCorner);
+    weights.mouthPucker = remap(mouthWidth, RANGE.mouthWidthNeutral, RANGE.mouthWidthPucker);
+    weights.mouthFunnel = weights.mouthPucker * remap(lipGap, RANGE.lipGapClosed, RANGE.lipGapOpen / 2);
+    const mouthShift = (local(FACE.upperLipTop).x + local(FACE.lowerLipBottom).x) / 2;
+    weights.mouthLeft = remap(mouthShift, RANGE.mouthSide[0], RANGE.mouthSide[1]);
+    weights.mouthRight = remap(-mouthShift, RANGE.mouthSide[0], RANGE.mouthSide[1]);
+
+    // Lips
+    weights.mouthRollUpper = remap(dist(FACE.upperLipTop, FACE.upperLipBottom),
+        RANGE.upperLipNeutral, RANGE.upperLipRolled);
+    weights.mouthRollLower = remap(dist(FACE.lowerLipTop, FACE.lowerLipBottom),
+        RANGE.lowerLipNeutral, RANGE.lowerLipRolled);
+    const press = Math.min(weights.mouthRollUpper, weights.mouthRollLower) * (1 - weights.jawOpen);
+    weights.mouthPressLeft = press;
+    weights.mouthPressRight = press;
+    weights.mouthShrugUpper = remap(dist(FACE.noseBottom, FACE.upperLipTop),
+        RANGE.noseToLipNeutral, RANGE.noseToLipRaised);
+    weights.mouthShrugLower = remap(dist(FACE.lowerLipBottom, FACE.chin),
+        RANGE.lipToChinNeutral, RANGE.lipToChinRaised);
+    weights.mouthLowerDownLeft = remap(dist(FACE.innerUpperLipLeft, FACE.innerLowerLipLeft),
+        RANGE.lipGapClosed, RANGE.lipGapOpen) * (1 - weights.jawOpen / 2);
+    weights.mouthLowerDownRight = remap(dist(FACE.innerUpperLipRight, FACE.innerLowerLipRight),
+        RANGE.lipGapClosed, RANGE.lipGapOpen) * (1 - weights.jawOpen / 2);
+    weights.mouthUpperUpLeft = remap(dist(FACE.noseBottom, FACE.upperLipLeft),
+        RANGE.noseToLipNeutral, RANGE.noseToLipRaised);
+    weights.mouthUpperUpRight = remap(dist(FACE.noseBottom, FACE.upperLipRight),
+        RANGE.noseToLipNeutral, RANGE.noseToLipRaised);
+
+    // Nose and cheeks
+    weights.noseSneerLeft = remap(dist(FACE.noseLeftWing, FACE.leftEyeInner),
+        RANGE.sneerNeutral, RANGE.sneerRaised);
+    weights.noseSneerRight = remap(dist(FACE.noseRightWing, FACE.rightEyeInner),
+        RANGE.sneerNeutral, RANGE.sneerRaised);
+    weights.cheekPuff = remap(dist(FACE.leftCheek, FACE.rightCheek), RANGE.cheekNeutral, RANGE.cheekPuffed);
+    weights.cheekSquintLeft = Math.sqrt(weights.mouthSmileLeft * weights.eyeSquintLeft);
+    weights.cheekSquintRight = Math.sqrt(weights.mouthSmileRight * weights.eyeSquintRight);
+
+    return weights;
+}
+
+export function initBlendshapeBones(boneRotations: CloneableQuaternionMap) {
+    initWeightBones(ARKIT_BLENDSHAPES, BLENDSHAPE_BONE_PREFIX, boneRotations);
+}
+
+export function packBlendshapes(weights: BlendshapeWeights, boneRotations: CloneableQuaternionMap) {
+    packWeights(ARKIT_BLENDSHAPES, BLENDSHAPE_BONE_PREFIX, weights, boneRotations);
+}
+
+export function unpackBlendshapes(boneRotations: CloneableQuaternionMap): Nullable<BlendshapeWeights> {
+    return unpackWeights(ARKIT_BLENDSHAPES, BLENDSHAPE_BONE_PREFIX, boneRotations);
+}
+
+/**
+ * Find perfect sync blend shape groups of a model.
+ * Names are matched case-insensitively, with optional "_L"/"_R" suffixes for Left/Right.
+ * @param morphingList Blend shape group names of model
+ */
+export function findPerfectSyncLabels(morphingList: string[]) {
+    const normalize = (s: string) => s.toLowerCase()
+        .replace(/_l$/, 'left').replace(/_r$/, 'right').replace(/[^a-z]/g, '');
+    const labels = new Map<string, string>();
+    for (const label of morphingList) labels.set(normalize(label), label);
+
+    const ret = new Map<ARKitBlendshape, string>();
+    for (const k of ARKIT_BLENDSHAPES) {
+        const label = labels.get(normalize(k));
+        if (label) ret.set(k, label);
+    }
+    return ret;
+}
+
+export interface BrowLabel {
+    label: string;
+    isLeft: boolean;
+    // Component of leftBrow/rightBrow pseudo bones: raise, lower, furrow
+    component: 'x' | 'y' | 'z';
+}
+
+/**
+ * Find custom brow blend shape groups of a model, e.g. "Brow_Up_L", "BrowDownRight", "Brow_Angry_R".
+ * VRM has no brow presets, these are common naming conventions.
+ * @param morphingList Blend shape group names of model
+ */
+export function findBrowLabels(morphingList: string[]) {
+    const pattern = /^(?:eye)?brows?_?(up|down|furrow|angry)_?(l|r|left|right)$/i;
+    const ret: BrowLabel[] = [];
+    for (const label of morphingList) {
+        const match = label.match(pattern);
+        if (!match) continue;
+        const kind = match[1].toLowerCase();
+        ret.push({
+            label: label,
+            isLeft: match[2].toLowerCase().startsWith('l'),
+            component: kind === 'up' ? 'x' : kind === 'down' ? 'y' : 'z',
+        });
+    }
+    return ret;
+}
@@ -0,0 +1,120 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Quaternion, Vector3} from "@babylonjs/core";
+import {TransformNodeTreeNode} from "v3d-core/dist/src/importer/babylon-vrm-loader/src";
+import {MotionFrame, MotionSkeleton} from "./motion-recorder";
+import {RadToDeg} from "./quaternion";
+import {round} from "./utils";
+
+export interface BVHExportOptions {
+    frameRate: number;
+    // Units per meter. Most DCC tools expect centimeters.
+    scale: number;
+    precision: number;
+}
+
+export const DefaultBVHExportOptions: BVHExportOptions = Object.freeze({
+    frameRate: 30,
+    scale: 100,
+    precision: 4,
+});
+
+/**
+ * Decompose quaternion into BVH ZXY Euler angles (degrees).
+ * Bone rotations are in glTF (right-handed, Y-up) node space, same as BVH.
+ * @param q Input quaternion
+ */
+export function quaternionToBVHEuler(q: Quaternion): Vector3 {
+    const {x, y, z, w} = q;
+    const m01 = 2 * (x * y - z * w);
+    const m11 = 1 - 2 * (x * x + z * z);
+    const m20 = 2 * (x * z - y * w);
+    const m21 = 2 * (y * z + x * w);
+    const m22 = 1 - 2 * (x * x + y * y);
+
+    const rx = Math.asin(Math.max(-1, Math.min(1, m21)));
+    const ry = Math.atan2(-m20, m22);
+    const rz = Math.atan2(-m01, m11);
+    return new Vector3(RadToDeg(rx), RadToDeg(ry), RadToDeg(rz));
+}
+
+/**
+ * Write frames as a BVH file.
+ * Hierarchy is derived from VRM humanoid bones.
+ * @param skeleton Skeleton captured when recording started
+ * @param frames Frames resampled to options.frameRate
+ * @param options Export options
+ */
+export function exportBVH(
+    skeleton: MotionSkeleton,
+    frames: MotionFrame[],
+    options: Partial<BVHExportOptions> = {}
+) {
+    const opts: BVHExportOptions = Object.assign({}, DefaultBVHExportOptions, options);
+    const fmt = (v: number) => round(v, opts.precision).toString();
+    const fmtVec = (v: Vector3) => `${fmt(v.x)} ${fmt(v.y)} ${fmt(v.z)}`;
+
+    // Bone order in MOTION section follows hierarchy declaration order
+    const boneOrder: string[] = [];
+    const lines: string[] = ['HIERARCHY'];
+    const writeNode = (n: TransformNodeTreeNode, depth: number) => {
+        const offset = skeleton.restOffsets[n.name];
+        if (!offset) return;
+        const indent = '\t'.repeat(depth);
+        boneOrder.push(n.name);
+
+        lines.push(`${indent}${depth === 0 ? 'ROOT' : 'JOINT'} ${n.name}`);
+        lines.push(`${indent}{`);
+        lines.push(`${indent}\tOFFSET ${fmtVec(depth === 0 ? Vector3.Zero() : offset.scale(opts.scale))}`);
+        lines.push(depth === 0 ?
+            `${indent}\tCHANNELS 6 Xposition Yposition Zposition Zrotation Xrotation Yrotation` :
+            `${indent}\tCHANNELS 3 Zrotation Xrotation Yrotation`);
+
+        const children = (n.children ?? []).filter((c) => skeleton.restOffsets[c.name]);
+        if (children.length > 0) {
+            children.forEach((c) => writeNode(c, depth + 1));
+        } else {
+            // Leaves extend along parent direction
+            const endOffset = offset.length() > 0 ?
+                offset.normalizeToNew().scale(0.05 * opts.scale) : new Vector3(0, 0.05 * opts.scale, 0);
+            lines.push(`${indent}\tEnd Site`);
+            lines.push(`${indent}\t{`);
+            lines.push(`${indent}\t\tOFFSET ${fmtVec(endOffset)}`);
+            lines.push(`${indent}\t}`);
+        }
+        lines.push(`${indent}}`);
+    };
+    writeNode(skeleton.tree, 0);
+
+    lines.push('MOTION');
+    lines.push(`Frames: ${frames.length}`);
+    lines.push(`Frame Time: ${round(1 / opts.frameRate, 6)}`);
+
+    const rootName = boneOrder[0];
+    for (const f of frames) {
+        const values: string[] = [];
+        const rootPos = skeleton.restOffsets[rootName].add(f.rootPosition).scaleInPlace(opts.scale);
+        values.push(fmtVec(rootPos));
+        for (const k of boneOrder) {
+            const e = quaternionToBVHEuler(f.rotations[k] ?? Quaternion.Identity());
+            values.push(`${fmt(e.z)} ${fmt(e.x)} ${fmt(e.y)}`);
+        }
+        lines.push(values.join(' '));
+    }
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,188 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Quaternion, Vector3} from "@babylonjs/core";
+
+// In order of the guided routine
+export const FACE_CALIBRATION_STEPS = ['neutral', 'eyesClosed', 'mouthOpen'] as const;
+export type FaceCalibrationStep = typeof FACE_CALIBRATION_STEPS[number];
+
+/**
+ * Per-user face baselines. Serializable, so apps can store and restore it.
+ */
+export interface FaceCalibrationProfile {
+    // Eye closure metric, larger when closed
+    leftEyeOpen: number;
+    leftEyeClosed: number;
+    rightEyeOpen: number;
+    rightEyeClosed: number;
+    // Lip gap / mouth width
+    mouthClosed: number;
+    mouthOpen: number;
+    // Iris offset when looking straight at camera, [x, y]
+    leftIrisCenter: [number, number];
+    rightIrisCenter: [number, number];
+}
+
+/**
+ * Face values measured every frame, in the same units as FaceCalibrationProfile.
+ */
+export interface FaceMeasurement {
+    leftEye: number;
+    rightEye: number;
+    mouth: number;
+    leftIris: [number, number];
+    rightIris: [number, number];
+}
+
+// Median rejects blinks and tracking glitches during capture
+function median(values: number[]) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Collects measurements per calibration step and builds a profile.
+ */
+export class FaceCalibrator {
+    private readonly samples = new Map<FaceCalibrationStep, FaceMeasurement[]>();
+    private _step: FaceCalibrationStep | null = null;
+    get step(): FaceCalibrationStep | null {
+        return this._step;
+    }
+    set step(value: FaceCalibrationStep | null) {
+        if (value) this.samples.set(value, []);
+        this._step = value;
+    }
+
+    public add(measurement: FaceMeasurement) {
+        if (!this._step) return;
+        this.samples.get(this._step)!.push(measurement);
+    }
+
+    public count(step: FaceCalibrationStep) {
+        return this.samples.get(step)?.length ?? 0;
+    }
+
+    public build(): FaceCalibrationProfile {
+        for (const step of FACE_CALIBRATION_STEPS) {
+            if (this.count(step) === 0) throw Error(`No samples for calibration step "${step}"!`);
+        }
+        const m = (step: FaceCalibrationStep, f: (s: FaceMeasurement) => number) =>
+            median(this.samples.get(step)!.map(f));
+
+        const profile: FaceCalibrationProfile = {
+            leftEyeOpen: m('neutral', (s) => s.leftEye),
+            leftEyeClosed: m('eyesClosed', (s) => s.leftEye),
+            rightEyeOpen: m('neutral', (s) => s.rightEye),
+            rightEyeClosed: m('eyesClosed', (s) => s.rightEye),
+            mouthClosed: m('neutral', (s) => s.mouth),
+            mouthOpen: m('mouthOpen', (s) => s.mouth),
+            leftIrisCenter: [m('neutral', (s) => s.leftIris[0]), m('neutral', (s) => s.leftIris[1])],
+            rightIrisCenter: [m('neutral', (s) => s.rightIris[0]), m('neutral', (s) => s.rightIris[1])],
+        };
+        if (profile.leftEyeClosed <= profile.leftEyeOpen || profile.rightEyeClosed <= profile.rightEyeOpen)
+            throw Error("Eyes were not closed during calibration!");
+        if (profile.mouthOpen <= profile.mouthClosed)
+            throw Error("Mouth was not opened during calibration!");
+        return profile;
+    }
+}
+
+export type BodyCalibrationPose = 'T' | 'A';
+// Arm angle below horizontal in A-pose
+export const A_POSE_ARM_ANGLE = Math.PI / 4;
+// Rest offsets larger than this are treated as tracking errors
+const MAX_REST_OFFSET_ANGLE = Math.PI / 9;
+
+/**
+ * Per-user body proportions and rest pose. Serializable, so apps can store and restore it.
+ */
+export interface BodyCalibrationProfile {
+    pose: BodyCalibrationPose;
+    // Lengths in meters, from world landmarks
+    shoulderWidth: number;
+    hipHeight: number;
+    limbLengths: { [bone: string]: number };
+    // Mid hip in normalized image coordinates, and mid hip to ankles height in image units
+    hipImagePosition: [number, number];
+    hipImageHeight: number;
+    // Rotations from measured to ideal limb directions in hips local frame, keyed by bone name, [x, y, z, w]
+    restOffsets: { [bone: string]: [number, number, number, number] };
+}
+
+/**
+ * Body values measured in one frame. Directions are unit vectors in hips local frame.
+ */
+export interface BodyMeasurement {
+    shoulderWidth: number;
+    hipHeight: number;
+    limbLengths: { [bone: string]: number };
+    hipImagePosition: [number, number];
+    hipImageHeight: number;
+    directions: { [bone: string]: Vector3 };
+    idealDirections: { [bone: string]: Vector3 };
+}
+
+/**
+ * Collects body measurements while the user holds a T-pose or A-pose.
+ */
+export class BodyCalibrator {
+    private readonly samples: BodyMeasurement[] = [];
+
+    constructor(public readonly pose: BodyCalibrationPose) {}
+
+    get count() {
+        return this.samples.length;
+    }
+
+    public add(measurement: BodyMeasurement) {
+        this.samples.push(measurement);
+    }
+
+    public build(): BodyCalibrationProfile {
+        if (this.samples.length === 0) throw Error("No full body samples for calibration!");
+        const m = (f: (s: BodyMeasurement) => number) => median(this.samples.map(f));
+        const bones = Object.keys(this.samples[0].directions);
+
+        const limbLengths: { [bone: string]: number } = {};
+        for (const k of Object.keys(this.samples[0].limbLengths)) limbLengths[k] = m((s) => s.limbLengths[k]);
+
+        const restOffsets: { [bone: string]: [number, number, number, number] } = {};
+        for (const k of bones) {
+            const measured = this.samples.reduce((p, s) => p.addInPlace(s.directions[k]), Vector3.Zero());
+            const ideal = this.samples.reduce((p, s) => p.addInPlace(s.idealDirections[k]), Vector3.Zero());
+            if (measured.length() === 0 || ideal.length() === 0) continue;
+            const q = Quaternion.FromUnitVectorsToRef(measured.normalize(), ideal.normalize(), new Quaternion());
+            const angle = 2 * Math.acos(Math.min(1, Math.abs(q.w)));
+            if (angle > MAX_REST_OFFSET_ANGLE) continue;
+            restOffsets[k] = [q.x, q.y, q.z, q.w];
+        }
+
+        const hipHeight = m((s) => s.hipHeight);
+        if (hipHeight <= 0) throw Error("Legs were not visible during calibration!");
+        return {
+            pose: this.pose,
+            shoulderWidth: m((s) => s.shoulderWidth),
+            hipHeight: hipHeight,
+            limbLengths: limbLengths,
+            hipImagePosition: [m((s) => s.hipImagePosition[0]), m((s) => s.hipImagePosition[1])],
+            hipImageHeight: m((s) => s.hipImageHeight),
+            restOffsets: restOffsets,
+        };
+    }
+}
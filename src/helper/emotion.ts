@@ -0,0 +1,128 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable} from "@babylonjs/core";
+import {CloneableQuaternionMap, initWeightBones, packWeights, unpackWeights} from "./quaternion";
+import {BlendshapeWeights} from "./blendshape";
+import {rangeCap, remapRangeWithCap} from "./utils";
+
+export const EMOTIONS = ['Happy', 'Angry', 'Sad', 'Surprised', 'Relaxed'] as const;
+export type Emotion = typeof EMOTIONS[number];
+export type EmotionWeights = { [k in Emotion]: number };
+
+// Weights are packed 4 per pseudo bone, i.e. emotion0, emotion1
+const EMOTION_BONE_PREFIX = 'emotion';
+
+export interface EmotionClassifierOptions {
+    // Score to turn an emotion on
+    enterThreshold: number;
+    // Score to turn it off again, lower than enterThreshold
+    exitThreshold: number;
+    // Per frame smoothing factor of output weights in (0, 1], 1 is no smoothing
+    smoothing: number;
+}
+
+const avg = (a: number, b: number) => (a + b) / 2;
+
+/**
+ * Raw emotion scores in [0, 1] from face geometry.
+ * @param w ARKit blendshape weights, with brows and blink relative to user neutral
+ */
+export function scoreEmotions(w: BlendshapeWeights): EmotionWeights {
+    const smile = avg(w.mouthSmileLeft, w.mouthSmileRight);
+    const frown = avg(w.mouthFrownLeft, w.mouthFrownRight);
+    const browDown = avg(w.browDownLeft, w.browDownRight);
+    const browOuterUp = avg(w.browOuterUpLeft, w.browOuterUpRight);
+    const eyeWide = avg(w.eyeWideLeft, w.eyeWideRight);
+    const blink = avg(w.eyeBlinkLeft, w.eyeBlinkRight);
+    // Peaks when eyes are half closed
+    const eyesHalfClosed = remapRangeWithCap(Math.abs(blink - 0.5), 0.1, 0.4, 1, 0);
+
+    return {
+        Happy: rangeCap(smile * 0.8 + avg(w.cheekSquintLeft, w.cheekSquintRight) * 0.2, 0, 1),
+        Angry: rangeCap(browDown * 0.6
+            + avg(w.noseSneerLeft, w.noseSneerRight) * 0.2
+            + avg(w.mouthPressLeft, w.mouthPressRight) * 0.2, 0, 1),
+        Sad: rangeCap((frown * 0.6 + w.browInnerUp * 0.4) * (1 - browOuterUp) * (1 - smile), 0, 1),
+        Surprised: rangeCap((eyeWide * 0.4 + avg(w.browInnerUp, browOuterUp) * 0.4 + w.jawOpen * 0.2)
+            * (1 - browDown), 0, 1),
+        Relaxed: rangeCap(remapRangeWithCap(smile, 0.1, 0.4, 0, 1) * eyesHalfClosed * (1 - w.jawOpen), 0, 1),
+    };
+}
+
+/**
+ * Turns raw emotion scores into continuous weights.
+ * Each emotion switches on above enterThreshold and off below exitThreshold, so weights do not flicker.
+ */
+export class EmotionClassifier {
+    private readonly options: EmotionClassifierOptions;
+    private readonly active = new Set<Emotion>();
+    private _weights: EmotionWeights = EmotionClassifier.zeroWeights();
+    get weights(): EmotionWeights {
+        return this._weights;
+    }
+
+    constructor(options: Partial<EmotionClassifierOptions> = {}) {
+        this.options = Object.assign({
+            enterThreshold: 0.5,
+            exitThreshold: 0.3,
+            smoothing: 0.2,
+        }, options);
+        if (this.options.exitThreshold >= this.options.enterThreshold)
+            throw Error("exitThreshold must be lower than enterThreshold!");
+    }
+
+    public update(scores: EmotionWeights) {
+        const {enterThreshold, exitThreshold, smoothing} = this.options;
+        const targets = EmotionClassifier.zeroWeights();
+        for (const k of EMOTIONS) {
+            if (scores[k] >= enterThreshold) this.active.add(k);
+            else if (scores[k] < exitThreshold) this.active.delete(k);
+            if (this.active.has(k)) targets[k] = remapRangeWithCap(scores[k], exitThreshold, 1, 0, 1);
+        }
+
+        // Blended expressions look broken on most models, so keep the sum at most 1
+        const sum = EMOTIONS.reduce((p, k) => p + targets[k], 0);
+        for (const k of EMOTIONS) {
+            if (sum > 1) targets[k] /= sum;
+            this._weights[k] += (targets[k] - this._weights[k]) * smoothing;
+        }
+        return this._weights;
+    }
+
+    public reset() {
+        this.active.clear();
+        this._weights = EmotionClassifier.zeroWeights();
+    }
+
+    private static zeroWeights() {
+        const weights = {} as EmotionWeights;
+        for (const k of EMOTIONS) weights[k] = 0;
+        return weights;
+    }
+}
+
+export function initEmotionBones(boneRotations: CloneableQuaternionMap) {
+    initWeightBones(EMOTIONS, EMOTION_BONE_PREFIX, boneRotations);
+}
+
+export function packEmotions(weights: EmotionWeights, boneRotations: CloneableQuaternionMap) {
+    packWeights(EMOTIONS, EMOTION_BONE_PREFIX, weights, boneRotations);
+}
+
+export function unpackEmotions(boneRotations: CloneableQuaternionMap): Nullable<EmotionWeights> {
+    return unpackWeights(EMOTIONS, EMOTION_BONE_PREFIX, boneRotations);
+}
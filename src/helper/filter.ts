@@ -24,10 +24,56 @@ export interface FilterParams {
     Q?: number,
     oneEuroCutoff?: number,
     oneEuroBeta?: number,
-    type: string,
+    type: 'Kalman' | 'OneEuro',
     gaussianSigma?: number,
 }
 
+// Landmark groups filtered separately in worker
+export const FILTER_GROUPS = ['pose', 'worldPose', 'face', 'hand', 'wrist', 'head', 'hipOffset'] as const;
+export type FilterGroup = typeof FILTER_GROUPS[number];
+export type FilterConfig = { [group in FilterGroup]: FilterParams };
+
+export const FILTER_PRESETS = ['responsive', 'balanced', 'smooth'] as const;
+export type FilterPreset = typeof FILTER_PRESETS[number];
+
+const BALANCED_FILTER_CONFIG: FilterConfig = {
+    pose: {R: 0.1, Q: 5, type: 'Kalman'},
+    worldPose: {R: 0.1, Q: 1, type: 'Kalman'},
+    face: {R: 0.1, Q: 1, type: 'Kalman'},
+    hand: {R: 1, Q: 10, type: 'Kalman'},
+    wrist: {R: 0.1, Q: 2, type: 'Kalman'},
+    head: {R: 1, Q: 50, type: 'Kalman'},
+    hipOffset: {R: 1, Q: 10, type: 'Kalman'},
+};
+
+// Higher Kalman process noise follows measurements more closely
+function scaleKalmanNoise(config: FilterConfig, scale: number) {
+    const ret = {} as FilterConfig;
+    for (const g of FILTER_GROUPS) {
+        const params = config[g];
+        ret[g] = params.type === 'Kalman' && params.Q !== undefined ?
+            Object.assign({}, params, {Q: params.Q * scale}) : params;
+    }
+    return ret;
+}
+
+export const FilterPresets: { [preset in FilterPreset]: Readonly<FilterConfig> } = {
+    responsive: scaleKalmanNoise(BALANCED_FILTER_CONFIG, 4),
+    balanced: BALANCED_FILTER_CONFIG,
+    smooth: scaleKalmanNoise(BALANCED_FILTER_CONFIG, 0.25),
+};
+
+/**
+ * @param filters Preset name, or groups to change from the balanced preset
+ */
+export function resolveFilterConfig(filters: FilterPreset | Partial<FilterConfig>): FilterConfig {
+    if (typeof filters === 'string') {
+        if (!(filters in FilterPresets)) throw Error(`Unknown filter preset "${filters}"!`);
+        return Object.assign({}, FilterPresets[filters]);
+    }
+    return Object.assign({}, BALANCED_FILTER_CONFIG, filters);
+}
+
 // 1D Gaussian Kernel
 export const gaussianKernel1d = (function () {
     let sqr2pi = Math.sqrt(2 * Math.PI);
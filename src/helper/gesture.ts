@@ -0,0 +1,177 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, Vector3} from "@babylonjs/core";
+import {CloneableQuaternionMap, initWeightBones, packWeights, unpackWeights} from "./quaternion";
+import {HAND_LANDMARKS} from "./landmark";
+import {rangeCap} from "./utils";
+
+export const GESTURES = ['Fist', 'OpenPalm', 'Peace', 'ThumbsUp', 'Point', 'OK'] as const;
+export type Gesture = typeof GESTURES[number];
+export type GestureHand = 'left' | 'right';
+
+export interface GestureEvent {
+    hand: GestureHand;
+    // null when the hand stops showing a gesture
+    gesture: Nullable<Gesture>;
+    previous: Nullable<Gesture>;
+}
+export type GestureListener = (event: GestureEvent) => void;
+
+export interface HandFeatures {
+    // Curl of index, middle, ring and little fingers in [0, 1], 1 is fully curled
+    curls: [number, number, number, number];
+    // Distances relative to palm length
+    thumbToIndexBase: number;
+    thumbToIndexTip: number;
+    // Y component of thumb direction, 1 is straight up
+    thumbUp: number;
+}
+
+// One pseudo bone gesture0, x for left hand and y for right hand. 0 is no gesture, otherwise index + 1.
+const GESTURE_HANDS: readonly GestureHand[] = ['left', 'right'];
+const GESTURE_BONE_PREFIX = 'gesture';
+// Sum of finger segment angles when fully curled
+const FULL_CURL_ANGLE = 4;
+const EXTENDED_CURL = 0.35;
+const CURLED_CURL = 0.6;
+const THUMB_EXTENDED_DISTANCE = 0.6;
+const PINCH_DISTANCE = 0.25;
+const THUMB_UP_THRESHOLD = 0.7;
+
+const FINGERS = ['Index', 'Middle', 'Ring', 'Little'];
+const FINGER_SEGMENTS = ['Proximal', 'Intermediate', 'Distal'];
+
+/**
+ * Extract gesture features of one hand.
+ * @param landmarks Filtered hand landmarks, Y up
+ * @param boneRotations Finger rotations from calcHandBones
+ * @param isLeft Which hand
+ */
+export function calcHandFeatures(
+    landmarks: Vector3[],
+    boneRotations: CloneableQuaternionMap,
+    isLeft: boolean
+): HandFeatures {
+    const prefix = isLeft ? 'left' : 'right';
+    const curls = FINGERS.map((f) => {
+        const angle = FINGER_SEGMENTS.reduce((p, s) => {
+            const q = boneRotations[`${prefix}${f}${s}`];
+            return q ? p + 2 * Math.acos(rangeCap(Math.abs(q.w), 0, 1)) : p;
+        }, 0);
+        return rangeCap(angle / FULL_CURL_ANGLE, 0, 1);
+    }) as HandFeatures['curls'];
+
+    const palm = Vector3.Distance(
+        landmarks[HAND_LANDMARKS.WRIST], landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP]) || 1;
+    const thumbTip = landmarks[HAND_LANDMARKS.THUMB_TIP];
+    const thumbDir = thumbTip.subtract(landmarks[HAND_LANDMARKS.THUMB_MCP]);
+    return {
+        curls: curls,
+        thumbToIndexBase: Vector3.Distance(thumbTip, landmarks[HAND_LANDMARKS.INDEX_FINGER_MCP]) / palm,
+        thumbToIndexTip: Vector3.Distance(thumbTip, landmarks[HAND_LANDMARKS.INDEX_FINGER_TIP]) / palm,
+        thumbUp: thumbDir.length() > 0 ? thumbDir.normalize().y : 0,
+    };
+}
+
+/**
+ * Classify a single frame, null if no gesture matches.
+ */
+export function classifyGesture(f: HandFeatures): Nullable<Gesture> {
+    const [index, middle, ring, little] = f.curls.map((c) =>
+        c < EXTENDED_CURL ? 'extended' : c > CURLED_CURL ? 'curled' : 'between');
+    const thumbExtended = f.thumbToIndexBase > THUMB_EXTENDED_DISTANCE;
+    const othersCurled = middle === 'curled' && ring === 'curled' && little === 'curled';
+
+    if (f.thumbToIndexTip < PINCH_DISTANCE &&
+        middle === 'extended' && ring === 'extended' && little === 'extended') return 'OK';
+    if (index === 'curled' && othersCurled) {
+        if (thumbExtended && f.thumbUp > THUMB_UP_THRESHOLD) return 'ThumbsUp';
+        if (!thumbExtended) return 'Fist';
+        return null;
+    }
+    if (index === 'extended' && othersCurled) return 'Point';
+    if (index === 'extended' && middle === 'extended' && ring === 'curled' && little === 'curled') return 'Peace';
+    if (thumbExtended && index === 'extended' && middle === 'extended' &&
+        ring === 'extended' && little === 'extended') return 'OpenPalm';
+    return null;
+}
+
+export interface GestureDebouncerOptions {
+    // Seconds a new gesture must be held before it is reported
+    holdTime: number;
+}
+
+/**
+ * Reports a gesture only after it has been classified for holdTime, so single frame glitches are ignored.
+ */
+export class GestureDebouncer {
+    private readonly options: GestureDebouncerOptions;
+    private candidate: Nullable<Gesture> = null;
+    private candidateSince = 0;
+    private _gesture: Nullable<Gesture> = null;
+    get gesture(): Nullable<Gesture> {
+        return this._gesture;
+    }
+
+    constructor(options: Partial<GestureDebouncerOptions> = {}) {
+        this.options = Object.assign({
+            holdTime: 0.2,
+        }, options);
+    }
+
+    /**
+     * @param gesture Gesture classified in this frame
+     * @param time Timestamp in seconds
+     */
+    public update(gesture: Nullable<Gesture>, time: number) {
+        if (gesture !== this.candidate) {
+            this.candidate = gesture;
+            this.candidateSince = time;
+        }
+        if (time - this.candidateSince >= this.options.holdTime) this._gesture = this.candidate;
+        return this._gesture;
+    }
+
+    public reset() {
+        this.candidate = null;
+        this._gesture = null;
+    }
+}
+
+export function initGestureBones(boneRotations: CloneableQuaternionMap) {
+    initWeightBones(GESTURE_HANDS, GESTURE_BONE_PREFIX, boneRotations);
+}
+
+const gestureToValue = (g: Nullable<Gesture>) => g ? GESTURES.indexOf(g) + 1 : 0;
+const valueToGesture = (v: number): Nullable<Gesture> => GESTURES[Math.round(v) - 1] ?? null;
+
+export function packGestures(
+    left: Nullable<Gesture>,
+    right: Nullable<Gesture>,
+    boneRotations: CloneableQuaternionMap
+) {
+    packWeights(GESTURE_HANDS, GESTURE_BONE_PREFIX,
+        {left: gestureToValue(left), right: gestureToValue(right)}, boneRotations);
+}
+
+export function unpackGestures(
+    boneRotations: CloneableQuaternionMap
+): Nullable<{ [hand in GestureHand]: Nullable<Gesture> }> {
+    const values = unpackWeights(GESTURE_HANDS, GESTURE_BONE_PREFIX, boneRotations);
+    if (!values) return null;
+    return {left: valueToGesture(values.left), right: valueToGesture(values.right)};
+}
@@ -0,0 +1,154 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as Comlink from "comlink";
+import {Nullable} from "@babylonjs/core";
+import {Options} from "@mediapipe/holistic";
+import {HolisticProcessor, holisticWrapper} from "../worker/holistic-processing";
+import {Poses} from "../worker/pose-processing";
+import {CloneableResults} from "./landmark";
+import {VideoInputSource} from "./input-source";
+import {HolisticState} from "../v3d-web";
+import {InferenceScheduler} from "./scheduler";
+
+/**
+ * Captures video frames on the main thread and runs Holistic in a dedicated worker.
+ * Holistic worker talks to pose worker directly. Sending is paced by InferenceScheduler.
+ */
+export class HolisticWorkerPipeline {
+    private readonly worker: Worker;
+    private processor: Nullable<Comlink.Remote<HolisticProcessor>> = null;
+
+    private running = false;
+    private newFrame = false;
+    private lastTime = -1;
+    private animationFrame: Nullable<number> = null;
+    // Log only the first error of consecutive failed frames
+    private failing = false;
+
+    constructor(
+        private readonly videoElement: HTMLVideoElement,
+        private readonly inputSource: VideoInputSource,
+        private readonly holisticState: HolisticState,
+        private readonly scheduler: InferenceScheduler,
+        private readonly onResults: (results: CloneableResults) => void,
+    ) {
+        this.worker = new Worker(
+            new URL("../worker/holistic-processing", import.meta.url),
+            {type: 'module'});
+    }
+
+    /**
+     * Initialize Holistic in worker and connect it to pose worker.
+     * Throws if the worker cannot run Holistic, caller should fall back to main thread inference.
+     * @param workerPose Pose worker
+     * @param options Holistic options
+     * @param assetPath Base URL of MediaPipe Holistic assets
+     */
+    public async start(workerPose: Comlink.Remote<Poses>, options: Options, assetPath: string) {
+        const processorRemote = Comlink.wrap<typeof holisticWrapper>(this.worker);
+        this.processor = await new processorRemote.processor(assetPath);
+        await this.processor.initialize(options);
+
+        const channel = new MessageChannel();
+        await workerPose.connectPort(Comlink.transfer(channel.port1, [channel.port1]));
+        await this.processor.connectPoses(Comlink.transfer(channel.port2, [channel.port2]));
+
+        this.running = true;
+        this.watchFrames();
+        this.animationFrame = requestAnimationFrame(() => this.update());
+    }
+
+    public setOptions(options: Options) {
+        this.processor?.setOptions(options);
+    }
+
+    public reset() {
+        this.processor?.reset();
+    }
+
+    public async close() {
+        this.running = false;
+        if (this.animationFrame !== null) cancelAnimationFrame(this.animationFrame);
+        this.animationFrame = null;
+        await this.processor?.close().catch(() => {});
+        this.processor = null;
+        this.worker.terminate();
+    }
+
+    /**
+     * Flag new frames as they are presented.
+     * Falls back to polling currentTime in update() without requestVideoFrameCallback.
+     */
+    private watchFrames() {
+        const video: HTMLVideoElement & { requestVideoFrameCallback?(callback: () => void): number } =
+            this.videoElement;
+        if (typeof video.requestVideoFrameCallback !== 'function') return;
+
+        const onFrame = () => {
+            if (!this.running) return;
+            this.newFrame = true;
+            video.requestVideoFrameCallback!(onFrame);
+        };
+        video.requestVideoFrameCallback(onFrame);
+    }
+
+    private update() {
+        if (!this.running) return;
+        this.animationFrame = requestAnimationFrame(() => this.update());
+
+        if (this.lastTime !== this.videoElement.currentTime) {
+            this.lastTime = this.videoElement.currentTime;
+            this.newFrame = true;
+        }
+        if (!this.holisticState.ready || this.videoElement.readyState < 2) return;
+
+        // Frame stepping on pre-recorded sources. Send regardless of playback state.
+        if (this.inputSource.stepPending) {
+            if (this.scheduler.inFlight) return;
+            this.inputSource.consumeStep();
+        } else if (!this.newFrame || this.videoElement.paused || this.videoElement.readyState < 3
+            || !this.scheduler.shouldSend()) {
+            return;
+        }
+
+        this.newFrame = false;
+        this.sendFrame();
+    }
+
+    private async sendFrame() {
+        if (!this.processor) return;
+
+        this.scheduler.begin();
+        try {
+            const time = this.videoElement.currentTime;
+            const frame = await createImageBitmap(this.videoElement);
+            const output = await this.processor.process(Comlink.transfer(frame, [frame]), time);
+            if (!output || !this.running) {
+                this.scheduler.cancel();
+                return;
+            }
+            this.scheduler.holisticDone(output.holisticLatency);
+            this.scheduler.processDone(output.processLatency);
+            this.failing = false;
+            this.onResults(output.results);
+        } catch (e) {
+            this.scheduler.cancel();
+            if (!this.failing) console.error(e);
+            this.failing = true;
+        }
+    }
+}
@@ -0,0 +1,157 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, Quaternion, TransformNode} from "@babylonjs/core";
+import {VRMManager} from "v3d-core/dist/src/importer/babylon-vrm-loader/src";
+import {CloneableQuaternionMap, initWeightBones, packWeights, unpackWeights} from "./quaternion";
+import {rangeCap} from "./utils";
+
+export interface IdleOptions {
+    // Intensities, 0 turns a feature off and 1 is the default amount
+    // Breathing on spine and chest, always on
+    breathing: number;
+    // Random blinks while the face is not tracked
+    blink: number;
+    // Head and neck sway while the face is not tracked
+    headSway: number;
+}
+
+export const DefaultIdleOptions: IdleOptions = {
+    breathing: 1,
+    blink: 1,
+    headSway: 1,
+};
+
+// Pseudo bone tracking0 with tracking state from worker, face is 1 when the face is tracked
+const TRACKING_STATES = ['face'] as const;
+const TRACKING_BONE_PREFIX = 'tracking';
+
+// Breathing, radians of pitch at intensity 1
+const BREATHING_PERIOD = 4;
+const BREATHING_BONES: { [bone: string]: number } = {spine: 0.01, chest: 0.015, upperChest: 0.01};
+// Head sway, radians at intensity 1 and frequencies that do not line up, so the motion does not repeat visibly
+const HEAD_SWAY_BONES: { [bone: string]: number } = {neck: 0.4, head: 0.6};
+const HEAD_SWAY_YAW = [0.06, 0.13];
+const HEAD_SWAY_PITCH = [0.04, 0.21];
+const HEAD_SWAY_ROLL = [0.03, 0.17];
+// Seconds
+const BLINK_DURATION = 0.15;
+const BLINK_INTERVAL_MIN = 2;
+const BLINK_INTERVAL_MAX = 6;
+// Per second, fades head sway in and out with face tracking
+const SWAY_FADE_SPEED = 2;
+
+export function initTrackingBones(boneRotations: CloneableQuaternionMap) {
+    initWeightBones(TRACKING_STATES, TRACKING_BONE_PREFIX, boneRotations);
+}
+
+export function packTracking(faceTracked: boolean, boneRotations: CloneableQuaternionMap) {
+    packWeights(TRACKING_STATES, TRACKING_BONE_PREFIX, {face: faceTracked ? 1 : 0}, boneRotations);
+}
+
+/**
+ * Additive procedural animation on top of tracked bones, so the avatar does not freeze.
+ * Call capture after every updatePose, and apply every frame.
+ */
+export class IdleLayer {
+    private _options: IdleOptions = Object.assign({}, DefaultIdleOptions);
+    get options(): IdleOptions {
+        return this._options;
+    }
+    set options(value: IdleOptions) {
+        if (Object.values(value).some((v) => v < 0)) throw Error("Idle intensities must not be negative!");
+        this._options = value;
+    }
+
+    // Rotations last set by updatePose, offsets are applied on top
+    private readonly base = new WeakMap<TransformNode, Quaternion>();
+    private faceTracked = false;
+    private swayWeight = 0;
+    private lastTime: Nullable<number> = null;
+    private blinkStart = -Infinity;
+    private nextBlink = 0;
+    // Labels last driven by idle blinks, empty when tracking drives them
+    private blinkLabels: string[] = [];
+
+    /**
+     * @param vrmManager Model just updated by updatePose
+     * @param boneRotations Bone rotations from worker
+     */
+    public capture(vrmManager: VRMManager, boneRotations: CloneableQuaternionMap) {
+        for (const node of this.nodes(vrmManager)) {
+            if (node.rotationQuaternion) this.base.set(node, node.rotationQuaternion.clone());
+        }
+        this.faceTracked = (unpackWeights(TRACKING_STATES, TRACKING_BONE_PREFIX, boneRotations)?.face ?? 0) > 0.5;
+    }
+
+    /**
+     * @param vrmManager Model to animate
+     * @param time Timestamp in seconds
+     * @param blinkLabels Blend shape groups updatePose drives for blinking
+     */
+    public apply(vrmManager: VRMManager, time: number, blinkLabels: string[]) {
+        const dt = this.lastTime === null ? 0 : time - this.lastTime;
+        this.lastTime = time;
+        const o = this._options;
+        this.swayWeight = rangeCap(
+            this.swayWeight + (this.faceTracked ? -dt : dt) * SWAY_FADE_SPEED, 0, 1);
+
+        const breath = Math.sin(time * 2 * Math.PI / BREATHING_PERIOD) * o.breathing;
+        for (const [k, amount] of Object.entries(BREATHING_BONES)) {
+            this.applyOffset(vrmManager.humanoidBone.nodeMap[k],
+                Quaternion.RotationYawPitchRoll(0, breath * amount, 0));
+        }
+
+        const sway = o.headSway * this.swayWeight;
+        const wave = ([amount, frequency]: number[]) => Math.sin(time * 2 * Math.PI * frequency) * amount * sway;
+        for (const [k, share] of Object.entries(HEAD_SWAY_BONES)) {
+            this.applyOffset(vrmManager.humanoidBone.nodeMap[k], Quaternion.RotationYawPitchRoll(
+                wave(HEAD_SWAY_YAW) * share, wave(HEAD_SWAY_PITCH) * share, wave(HEAD_SWAY_ROLL) * share));
+        }
+
+        // Tracked blinks come from updatePose, which has already overwritten the same labels
+        if (this.faceTracked || o.blink === 0) {
+            if (!this.faceTracked) {
+                // Do not leave a partial blink behind
+                for (const l of this.blinkLabels) vrmManager.morphing(l, 0);
+            }
+            this.blinkLabels = [];
+            return;
+        }
+        if (time >= this.nextBlink) {
+            this.blinkStart = time;
+            this.nextBlink = time + BLINK_INTERVAL_MIN + Math.random() * (BLINK_INTERVAL_MAX - BLINK_INTERVAL_MIN);
+        }
+        const t = (time - this.blinkStart) / BLINK_DURATION;
+        const weight = t < 1 ? Math.sin(t * Math.PI) * Math.min(o.blink, 1) : 0;
+        // Also replaces tracked values left over from when the face was lost
+        for (const l of blinkLabels) vrmManager.morphing(l, weight);
+        this.blinkLabels = blinkLabels;
+    }
+
+    private nodes(vrmManager: VRMManager) {
+        return [...Object.keys(BREATHING_BONES), ...Object.keys(HEAD_SWAY_BONES)]
+            .map((k) => vrmManager.humanoidBone.nodeMap[k])
+            .filter((n): n is TransformNode => !!n);
+    }
+
+    private applyOffset(node: Nullable<TransformNode> | undefined, offset: Quaternion) {
+        if (!node) return;
+        // Untouched by tracking so far, e.g. optional bones. Rest rotation is the base.
+        if (!this.base.has(node)) this.base.set(node, node.rotationQuaternion?.clone() ?? Quaternion.Identity());
+        node.rotationQuaternion = this.base.get(node)!.multiply(offset);
+    }
+}
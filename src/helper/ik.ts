@@ -0,0 +1,128 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, Vector3} from "@babylonjs/core";
+
+/**
+ * Solve a two bone chain (e.g. hip-knee-ankle) reaching for a target.
+ * Target is pulled in when out of reach.
+ * @param root Position of chain root
+ * @param target Desired end position
+ * @param upperLength Length of first bone
+ * @param lowerLength Length of second bone
+ * @param pole Point the middle joint should bend towards, e.g. tracked knee
+ * @return Middle joint and end positions
+ */
+export function solveTwoBoneIK(
+    root: Vector3,
+    target: Vector3,
+    upperLength: number,
+    lowerLength: number,
+    pole: Vector3
+): [Vector3, Vector3] {
+    const toTarget = target.subtract(root);
+    const dir = toTarget.length() > 0 ? toTarget.normalize() : new Vector3(0, -1, 0);
+    const minReach = Math.abs(upperLength - lowerLength) + 1e-4;
+    const maxReach = upperLength + lowerLength - 1e-4;
+    const d = Math.min(Math.max(target.subtract(root).length(), minReach), maxReach);
+    const end = root.add(dir.scale(d));
+
+    // Law of cosines, a along root to end, h perpendicular towards pole
+    const a = (upperLength * upperLength - lowerLength * lowerLength + d * d) / (2 * d);
+    const h = Math.sqrt(Math.max(upperLength * upperLength - a * a, 0));
+    const toPole = pole.subtract(root);
+    let bend = toPole.subtract(dir.scale(Vector3.Dot(toPole, dir)));
+    if (bend.length() < 1e-6) {
+        // Pole on the line, bend knee forward
+        bend = Vector3.Cross(dir, Vector3.Right());
+        if (bend.length() < 1e-6) bend = Vector3.Cross(dir, Vector3.Forward());
+    }
+    const middle = root.add(dir.scale(a)).addInPlace(bend.normalize().scaleInPlace(h));
+    return [middle, end];
+}
+
+export interface FootContactOptions {
+    // Speed (units per second) below which the foot counts as still
+    plantSpeed: number;
+    // Speed above which a planted foot is released, higher than plantSpeed
+    releaseSpeed: number;
+    // Seconds the foot must stay still before it is planted
+    plantTime: number;
+}
+
+/**
+ * Detects foot contact from landmark velocity and holds the position where the foot was planted.
+ */
+export class FootContact {
+    private readonly options: FootContactOptions;
+    private lastPosition: Nullable<Vector3> = null;
+    private lastTime = 0;
+    private stillTime = 0;
+
+    private _planted = false;
+    get planted(): boolean {
+        return this._planted;
+    }
+    private _lockedPosition: Nullable<Vector3> = null;
+    get lockedPosition(): Nullable<Vector3> {
+        return this._lockedPosition;
+    }
+
+    constructor(options: Partial<FootContactOptions> = {}) {
+        this.options = Object.assign({
+            plantSpeed: 0.08,
+            releaseSpeed: 0.2,
+            plantTime: 0.1,
+        }, options);
+        if (this.options.releaseSpeed <= this.options.plantSpeed)
+            throw Error("releaseSpeed must be higher than plantSpeed!");
+    }
+
+    /**
+     * @param trackedPosition Foot position used for velocity, e.g. in image space
+     * @param lockPosition Foot position to hold while planted
+     * @param time Timestamp in seconds
+     */
+    public update(trackedPosition: Vector3, lockPosition: Vector3, time: number) {
+        const dt = time - this.lastTime;
+        if (this.lastPosition && dt > 0) {
+            const speed = trackedPosition.subtract(this.lastPosition).length() / dt;
+            if (this._planted) {
+                if (speed > this.options.releaseSpeed) this.release();
+            } else {
+                this.stillTime = speed < this.options.plantSpeed ? this.stillTime + dt : 0;
+                if (this.stillTime >= this.options.plantTime) {
+                    this._planted = true;
+                    this._lockedPosition = lockPosition.clone();
+                }
+            }
+        }
+        this.lastPosition = trackedPosition.clone();
+        this.lastTime = time;
+        return this._planted;
+    }
+
+    public release() {
+        this._planted = false;
+        this._lockedPosition = null;
+        this.stillTime = 0;
+    }
+
+    public reset() {
+        this.release();
+        this.lastPosition = null;
+    }
+}
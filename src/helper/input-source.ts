@@ -0,0 +1,151 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable} from "@babylonjs/core";
+
+export type InputSource = File | Blob | string | MediaStream;
+
+/**
+ * Drives the video element fed to Holistic.
+ * Accepts live streams as well as pre-recorded files/URLs.
+ */
+export class VideoInputSource {
+    private objectUrl: Nullable<string> = null;
+
+    private _isLive = true;
+    get isLive(): boolean {
+        return this._isLive;
+    }
+
+    private _stepPending = false;
+    get stepPending(): boolean {
+        return this._stepPending;
+    }
+
+    get currentTime(): number {
+        return this.videoElement.currentTime;
+    }
+
+    get duration(): number {
+        return this.videoElement.duration;
+    }
+
+    get paused(): boolean {
+        return this.videoElement.paused;
+    }
+
+    constructor(
+        private readonly videoElement: HTMLVideoElement,
+        public frameRate = 30,
+    ) {}
+
+    /**
+     * Replace current source. Previous object URLs are revoked.
+     * @param source File, Blob, URL or MediaStream
+     * @param loop Whether pre-recorded sources should loop
+     */
+    public async setSource(source: InputSource, loop = false) {
+        this.releaseSource();
+
+        if (source instanceof MediaStream) {
+            this._isLive = true;
+            this.videoElement.loop = false;
+            this.videoElement.srcObject = source;
+        } else {
+            this._isLive = false;
+            this.videoElement.loop = loop;
+            if (typeof source === 'string') {
+                this.videoElement.src = source;
+            } else {
+                this.objectUrl = URL.createObjectURL(source);
+                this.videoElement.src = this.objectUrl;
+            }
+        }
+
+        await this.waitForEvent('loadedmetadata');
+    }
+
+    public async play() {
+        await this.videoElement.play();
+    }
+
+    public pause() {
+        this.videoElement.pause();
+    }
+
+    /**
+     * Seek to time. Only available for pre-recorded sources.
+     * @param time Time in seconds
+     */
+    public async seek(time: number) {
+        if (this._isLive) return;
+
+        const seeked = this.waitForEvent('seeked');
+        this.videoElement.currentTime = Math.max(0, Math.min(time, this.duration || 0));
+        await seeked;
+    }
+
+    /**
+     * Pause and advance a fixed number of frames.
+     * The frame landed on is sent to Holistic exactly once.
+     * @param frames Number of frames to step. Negative values step backwards.
+     */
+    public async step(frames = 1) {
+        if (this._isLive) return;
+
+        this.pause();
+        await this.seek(this.currentTime + frames / this.frameRate);
+        this._stepPending = true;
+    }
+
+    /**
+     * Consume a pending step. Called by render loop after the frame is sent.
+     */
+    public consumeStep() {
+        this._stepPending = false;
+    }
+
+    public dispose() {
+        this.releaseSource();
+    }
+
+    private releaseSource() {
+        this.pause();
+        this._stepPending = false;
+        this.videoElement.srcObject = null;
+        this.videoElement.removeAttribute('src');
+        this.videoElement.load();
+        if (this.objectUrl) {
+            URL.revokeObjectURL(this.objectUrl);
+            this.objectUrl = null;
+        }
+    }
+
+    private waitForEvent(type: keyof HTMLVideoElementEventMap) {
+        return new Promise<void>((resolve, reject) => {
+            const onEvent = () => {
+                this.videoElement.removeEventListener('error', onError);
+                resolve();
+            };
+            const onError = () => {
+                this.videoElement.removeEventListener(type, onEvent);
+                reject(Error(`Failed to load video source: ${this.videoElement.error?.message}`));
+            };
+            this.videoElement.addEventListener(type, onEvent, {once: true});
+            this.videoElement.addEventListener('error', onError, {once: true});
+        });
+    }
+}
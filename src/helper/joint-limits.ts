@@ -0,0 +1,189 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, Quaternion, Vector3} from "@babylonjs/core";
+import {CloneableQuaternionMap, cloneableQuaternionToQuaternion, decomposeSwingTwist} from "./quaternion";
+import {rangeCap} from "./utils";
+
+/**
+ * Limit of one joint in its local rest frame. Angles in radians.
+ */
+export interface JointLimit {
+    // Maximum angle between bone direction and cone center
+    swing: number;
+    // Cone center, defaults to rest bone direction
+    swingCenter?: [number, number, number];
+    // Twist range around rest bone direction
+    twist: [number, number];
+    // Bend range of a hinge joint between parent bone and this bone, negative is hyperextension.
+    // Limits landmark directions before bones are solved, see applyHingeLimit.
+    hinge?: [number, number];
+}
+export type JointLimitTable = { [bone: string]: JointLimit };
+// null removes the limit of a bone
+export type JointLimitOverrides = { [bone: string]: Nullable<JointLimit> };
+
+/*
+ * Bone local rest frame: avatar faces -Z, left is -X, up is +Y.
+ */
+const FINGERS = ['Index', 'Middle', 'Ring', 'Little'];
+const FINGER_SEGMENTS = ['Proximal', 'Intermediate', 'Distal'];
+// Minimum cosine between bend plane normal and hyperextension axis to count a bend as hyperextension
+const HYPEREXTENSION_THRESHOLD = 0.3;
+
+/**
+ * Rest direction of a bone in its local frame, from humanoid bone name.
+ * @param bone Humanoid bone name
+ */
+export function restDirection(bone: string) {
+    if (/Leg$/.test(bone)) return new Vector3(0, -1, 0);
+    if (/Foot$|Toes$/.test(bone)) return new Vector3(0, 0, -1);
+    if (bone.startsWith('left')) return new Vector3(-1, 0, 0);
+    if (bone.startsWith('right')) return new Vector3(1, 0, 0);
+    return new Vector3(0, 1, 0);
+}
+
+// Direction bent by angle from rest towards target
+const bentDirection = (bone: string, towards: Vector3, angle: number): [number, number, number] => {
+    const d = restDirection(bone).scaleInPlace(Math.cos(angle)).addInPlace(towards.scale(Math.sin(angle)));
+    return [d.x, d.y, d.z];
+};
+
+function createDefaultJointLimits() {
+    const table: JointLimitTable = {
+        spine: {swing: 0.6, twist: [-0.5, 0.5]},
+        chest: {swing: 0.6, twist: [-0.5, 0.5]},
+        upperChest: {swing: 0.6, twist: [-0.5, 0.5]},
+        neck: {swing: 0.8, twist: [-0.9, 0.9]},
+        head: {swing: 0.8, twist: [-0.9, 0.9]},
+    };
+    for (const k of ['left', 'right']) {
+        table[`${k}Shoulder`] = {swing: 0.5, twist: [-0.2, 0.2]};
+        table[`${k}UpperArm`] = {swing: 2.8, twist: [-1.6, 1.6]};
+        // Elbow bend direction in bone space depends on upper arm roll, which is not tracked.
+        // Bend is limited as a hinge on landmarks instead, from about -6 to 150 degrees.
+        table[`${k}LowerArm`] = {swing: 2.7, twist: [-1.75, 1.75], hinge: [-0.1, 2.6]};
+        table[`${k}Hand`] = {swing: 1.4, twist: [-Math.PI / 2, Math.PI / 2]};
+        table[`${k}UpperLeg`] = {swing: 2.2, twist: [-0.8, 0.8]};
+        // Knees bend backwards (+Z), up to about 150 degrees
+        table[`${k}LowerLeg`] = {
+            swing: 1.48, swingCenter: bentDirection(`${k}LowerLeg`, new Vector3(0, 0, 1), 1.22),
+            twist: [-0.5, 0.5],
+        };
+        table[`${k}Foot`] = {swing: 0.9, twist: [-0.4, 0.4]};
+        // Fingers curl towards palm (-Y in T-pose)
+        for (const f of FINGERS) {
+            FINGER_SEGMENTS.forEach((s, i) => {
+                const bone = `${k}${f}${s}`;
+                table[bone] = i === 0 ?
+                    {swing: 1.2, swingCenter: bentDirection(bone, new Vector3(0, -1, 0), 0.79), twist: [-0.2, 0.2]} :
+                    {swing: 0.95, swingCenter: bentDirection(bone, new Vector3(0, -1, 0), 0.87), twist: [-0.1, 0.1]};
+            });
+        }
+        for (const s of FINGER_SEGMENTS) {
+            table[`${k}Thumb${s}`] = {swing: 1.2, twist: [-0.6, 0.6]};
+        }
+    }
+    return table;
+}
+
+export const DefaultJointLimits: Readonly<JointLimitTable> = Object.freeze(createDefaultJointLimits());
+
+/**
+ * Merge per model overrides into default limits.
+ * @param overrides Limits replacing defaults, null to remove one
+ */
+export function mergeJointLimits(overrides: JointLimitOverrides = {}) {
+    const table: JointLimitTable = Object.assign({}, DefaultJointLimits);
+    for (const [k, v] of Object.entries(overrides)) {
+        if (v) table[k] = v;
+        else delete table[k];
+    }
+    return table;
+}
+
+/**
+ * Clamp a local rotation into a swing cone and twist range.
+ * @param q Local rotation
+ * @param limit Joint limit
+ * @param restDir Rest bone direction in local frame
+ */
+export function applyJointLimit(q: Quaternion, limit: JointLimit, restDir: Vector3) {
+    const [swing, , twistAngle] = decomposeSwingTwist(q, restDir);
+    const twist = Quaternion.RotationAxis(restDir, rangeCap(twistAngle, limit.twist[0], limit.twist[1]));
+
+    const dir = restDir.rotateByQuaternionToRef(swing, new Vector3());
+    const center = limit.swingCenter ? Vector3.FromArray(limit.swingCenter).normalize() : restDir;
+    const angle = Math.acos(rangeCap(Vector3.Dot(dir, center), -1, 1));
+    let limitedSwing = swing;
+    if (angle > limit.swing) {
+        const axis = Vector3.Cross(center, dir);
+        // Opposite to center, no way to tell which side to clamp to
+        if (axis.length() > 1e-6) {
+            const limitedDir = center.rotateByQuaternionToRef(
+                Quaternion.RotationAxis(axis.normalize(), limit.swing), new Vector3());
+            limitedSwing = Quaternion.FromUnitVectorsToRef(restDir, limitedDir, new Quaternion());
+        }
+    }
+    return limitedSwing.multiply(twist);
+}
+
+/**
+ * Clamp bend of a hinge joint, e.g. elbow, given as landmark directions.
+ * Straight is 0. Bend is hyperextension if normal of the bend plane points along hyperextensionAxis,
+ * otherwise flexion.
+ * @param parentDir Direction of parent bone, e.g. shoulder to elbow
+ * @param dir Direction of bone, e.g. elbow to wrist
+ * @param range Bend range in radians
+ * @param hyperextensionAxis Axis telling hyperextension from flexion. Without it, every bend is flexion.
+ * @return Limited unit direction of bone
+ */
+export function applyHingeLimit(
+    parentDir: Vector3,
+    dir: Vector3,
+    range: [number, number],
+    hyperextensionAxis: Nullable<Vector3> = null
+) {
+    const u = parentDir.normalizeToNew();
+    const f = dir.normalizeToNew();
+    const side = f.subtract(u.scale(Vector3.Dot(f, u)));
+    // Straight or folded back, no bend plane to clamp in
+    if (side.length() < 1e-6) return f;
+    side.normalize();
+
+    const normal = Vector3.Cross(u, f).normalize();
+    const isHyperextended = !!hyperextensionAxis &&
+        Vector3.Dot(normal, hyperextensionAxis.normalizeToNew()) > HYPEREXTENSION_THRESHOLD;
+    const sign = isHyperextended ? -1 : 1;
+    const bend = sign * Math.acos(rangeCap(Vector3.Dot(u, f), -1, 1));
+    const limited = rangeCap(bend, range[0], range[1]);
+    if (limited === bend) return f;
+    // Flexion is towards side * sign
+    return u.scale(Math.cos(limited)).addInPlace(side.scale(sign * Math.sin(limited)));
+}
+
+/**
+ * Clamp every bone with a limit in place. Bones without a limit, e.g. expression pseudo bones, are untouched.
+ * @param boneRotations Local bone rotations
+ * @param table Joint limits keyed by humanoid bone name
+ */
+export function applyJointLimits(boneRotations: CloneableQuaternionMap, table: JointLimitTable) {
+    for (const [k, limit] of Object.entries(table)) {
+        const q = boneRotations[k];
+        if (!q) continue;
+        q.set(applyJointLimit(cloneableQuaternionToQuaternion(q), limit, restDirection(k)));
+    }
+}
@@ -0,0 +1,251 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {NormalizedLandmarkList} from "@mediapipe/holistic";
+import {Nullable} from "@babylonjs/core";
+import {CloneableResults} from "./landmark";
+
+/*
+ * Session file layout (little endian):
+ *  Header: "V3DL" magic, uint16 version, uint16 reserved
+ *  Frame:  float64 timestamp (ms), uint8 group mask,
+ *          per present group: uint16 count, count * float32 [x, y, z, visibility]
+ * Missing visibility is stored as NaN.
+ */
+const SESSION_MAGIC = 0x4C443356;    // "V3DL"
+const SESSION_VERSION = 1;
+const HEADER_LENGTH = 8;
+
+// Order matters, it defines bits in group mask.
+// "ea" is the (minified) pose world landmark list used by worker.
+const LANDMARK_GROUPS = [
+    'poseLandmarks',
+    'ea',
+    'faceLandmarks',
+    'leftHandLandmarks',
+    'rightHandLandmarks',
+] as const;
+type LandmarkGroup = typeof LANDMARK_GROUPS[number];
+// "ea" is missing from Holistic typings
+type SessionResults = Partial<CloneableResults> & { [k in LandmarkGroup]?: NormalizedLandmarkList };
+
+export interface LandmarkSessionFrame {
+    // Milliseconds since recording started
+    time: number;
+    results: CloneableResults;
+}
+
+/**
+ * Records raw Holistic results with timestamps into a compact binary file.
+ */
+export class LandmarkSessionRecorder {
+    private chunks: ArrayBuffer[] = [];
+    private startTime = 0;
+
+    private _recording = false;
+    get recording(): boolean {
+        return this._recording;
+    }
+
+    private _frameCount = 0;
+    get frameCount(): number {
+        return this._frameCount;
+    }
+
+    public start() {
+        const header = new DataView(new ArrayBuffer(HEADER_LENGTH));
+        header.setUint32(0, SESSION_MAGIC, true);
+        header.setUint16(4, SESSION_VERSION, true);
+        this.chunks = [header.buffer];
+        this._frameCount = 0;
+        this.startTime = performance.now();
+        this._recording = true;
+    }
+
+    /**
+     * Encode a frame. Landmarks are copied immediately, so results may be mutated afterwards.
+     * @param results Holistic results
+     */
+    public addFrame(results: CloneableResults) {
+        if (!this._recording) return;
+
+        const groups: SessionResults = results;
+        const lists = LANDMARK_GROUPS.map((k) => groups[k]);
+        const byteLength = 9 + lists.reduce(
+            (p, l) => p + (l ? 2 + l.length * 16 : 0), 0);
+
+        const view = new DataView(new ArrayBuffer(byteLength));
+        view.setFloat64(0, performance.now() - this.startTime, true);
+        let mask = 0, offset = 9;
+        lists.forEach((l, i) => {
+            if (!l) return;
+            mask |= 1 << i;
+            view.setUint16(offset, l.length, true);
+            offset += 2;
+            for (const v of l) {
+                // Landmarks may have been deleted for drawing
+                view.setFloat32(offset, v?.x ?? NaN, true);
+                view.setFloat32(offset + 4, v?.y ?? NaN, true);
+                view.setFloat32(offset + 8, v?.z ?? NaN, true);
+                view.setFloat32(offset + 12, v?.visibility ?? NaN, true);
+                offset += 16;
+            }
+        });
+        view.setUint8(8, mask);
+
+        this.chunks.push(view.buffer);
+        this._frameCount++;
+    }
+
+    public stop() {
+        this._recording = false;
+        return new Blob(this.chunks, {type: 'application/octet-stream'});
+    }
+}
+
+/**
+ * Decode a session file.
+ * @param buffer Session file content
+ */
+export function decodeLandmarkSession(buffer: ArrayBuffer): LandmarkSessionFrame[] {
+    const view = new DataView(buffer);
+    if (view.byteLength < HEADER_LENGTH || view.getUint32(0, true) !== SESSION_MAGIC)
+        throw Error("Not a landmark session file!");
+    if (view.getUint16(4, true) !== SESSION_VERSION)
+        throw Error(`Unsupported landmark session version: ${view.getUint16(4, true)}`);
+
+    const frames: LandmarkSessionFrame[] = [];
+    let offset = HEADER_LENGTH;
+    while (offset < view.byteLength) {
+        const time = view.getFloat64(offset, true);
+        const mask = view.getUint8(offset + 8);
+        offset += 9;
+
+        const results: SessionResults = {};
+        LANDMARK_GROUPS.forEach((k, i) => {
+            if (!(mask & (1 << i))) return;
+            const count = view.getUint16(offset, true);
+            offset += 2;
+            const list: NormalizedLandmarkList = new Array(count);
+            for (let j = 0; j < count; ++j) {
+                const x = view.getFloat32(offset, true);
+                const visibility = view.getFloat32(offset + 12, true);
+                if (!Number.isNaN(x)) {
+                    list[j] = {
+                        x: x,
+                        y: view.getFloat32(offset + 4, true),
+                        z: view.getFloat32(offset + 8, true),
+                    };
+                    if (!Number.isNaN(visibility)) list[j].visibility = visibility;
+                }
+                offset += 16;
+            }
+            results[k] = list;
+        });
+        // Groups that were not detected are absent, like in live Holistic results
+        frames.push({time, results: results as CloneableResults});
+    }
+
+    return frames;
+}
+
+/**
+ * Replays decoded frames with original timing.
+ * Each frame is handed out as a fresh copy, since consumers mutate results.
+ */
+export class LandmarkSessionPlayer {
+    private timer: Nullable<ReturnType<typeof setTimeout>> = null;
+    private playStartTime = 0;
+    private playStartOffset = 0;
+
+    private _index = 0;
+    get index(): number {
+        return this._index;
+    }
+
+    get playing(): boolean {
+        return this.timer !== null;
+    }
+
+    get duration(): number {
+        return this.frames.length > 0 ? this.frames[this.frames.length - 1].time : 0;
+    }
+
+    constructor(
+        private readonly frames: LandmarkSessionFrame[],
+        // Time of the frame in seconds
+        private readonly onFrame: (results: CloneableResults, time: number) => void,
+        public loop = false,
+        public speed = 1,
+    ) {}
+
+    public play() {
+        if (this.playing || this.frames.length === 0) return;
+        if (this._index >= this.frames.length) this._index = 0;
+
+        this.playStartTime = performance.now();
+        this.playStartOffset = this.frames[this._index].time;
+        this.scheduleNext();
+    }
+
+    public pause() {
+        if (this.timer !== null) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Send the next frame only. Frames are processed in order regardless of timing.
+     */
+    public step() {
+        this.pause();
+        if (this._index >= this.frames.length) return;
+        this.emit(this._index++);
+    }
+
+    /**
+     * Jump to the first frame at or after time.
+     * @param time Time in milliseconds
+     */
+    public seek(time: number) {
+        const wasPlaying = this.playing;
+        this.pause();
+        const idx = this.frames.findIndex((f) => f.time >= time);
+        this._index = idx < 0 ? this.frames.length : idx;
+        if (wasPlaying) this.play();
+    }
+
+    private scheduleNext() {
+        if (this._index >= this.frames.length) {
+            this.timer = null;
+            if (this.loop) {
+                this._index = 0;
+                this.play();
+            }
+            return;
+        }
+
+        const elapsed = (performance.now() - this.playStartTime) * this.speed;
+        const delay = (this.frames[this._index].time - this.playStartOffset - elapsed) / this.speed;
+        this.timer = setTimeout(() => {
+            this.emit(this._index++);
+            this.scheduleNext();
+        }, Math.max(0, delay));
+    }
+
+    private emit(idx: number) {
+        this.onFrame(JSON.parse(JSON.stringify(this.frames[idx].results)), this.frames[idx].time / 1000);
+    }
+}
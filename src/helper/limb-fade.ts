@@ -0,0 +1,99 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, Quaternion} from "@babylonjs/core";
+import {CloneableQuaternionMap, cloneableQuaternionToQuaternion} from "./quaternion";
+import {HAND_LANDMARKS_BONE_MAPPING} from "./landmark";
+import {rangeCap} from "./utils";
+
+export const LIMB_GROUPS = ['hand', 'arm', 'leg'] as const;
+export type LimbGroup = typeof LIMB_GROUPS[number];
+
+export interface LimbFadeDuration {
+    // Seconds from tracked to idle pose after the limb is lost, 0 snaps
+    fadeOut: number;
+    // Seconds from idle back to tracked pose after the limb reappears
+    fadeIn: number;
+}
+export type LimbFadeDurations = { [group in LimbGroup]: LimbFadeDuration };
+
+// Idle rotations keyed by bone name, [x, y, z, w]. Missing bones use the default rest pose.
+export type IdlePose = { [bone: string]: [number, number, number, number] };
+
+/**
+ * Humanoid bones of one limb group.
+ */
+export function limbGroupBones(group: LimbGroup, isLeft: boolean) {
+    const prefix = isLeft ? 'left' : 'right';
+    switch (group) {
+        case "hand":
+            return Object.keys(HAND_LANDMARKS_BONE_MAPPING).map((k) => prefix + k);
+        case "arm":
+            return ['Shoulder', 'UpperArm', 'LowerArm'].map((k) => prefix + k);
+        case "leg":
+            return ['UpperLeg', 'LowerLeg', 'Foot'].map((k) => prefix + k);
+    }
+}
+
+/**
+ * Blends bones of one limb between tracked and idle rotations over time.
+ * While the limb is lost, the last tracked rotations are held and faded out.
+ */
+export class LimbFader {
+    private readonly tracked: { [bone: string]: Quaternion } = {};
+    private lastTime: Nullable<number> = null;
+    // 1 is fully tracked, 0 is fully idle
+    private _weight = 1;
+    get weight(): number {
+        return this._weight;
+    }
+
+    constructor(public readonly bones: string[]) {}
+
+    /**
+     * @param boneRotations Bone rotations of this frame, blended in place
+     * @param visible Whether the limb is tracked in this frame
+     * @param idle Idle rotation of a bone
+     * @param duration Fade durations of this limb group
+     * @param time Timestamp in seconds
+     */
+    public update(
+        boneRotations: CloneableQuaternionMap,
+        visible: boolean,
+        idle: (bone: string) => Quaternion,
+        duration: LimbFadeDuration,
+        time: number
+    ) {
+        const dt = this.lastTime === null ? 0 : time - this.lastTime;
+        this.lastTime = time;
+        const span = visible ? duration.fadeIn : duration.fadeOut;
+        const step = span > 0 ? dt / span : 1;
+        this._weight = rangeCap(this._weight + (visible ? step : -step), 0, 1);
+
+        for (const k of this.bones) {
+            const q = boneRotations[k];
+            if (!q) continue;
+            if (visible || !this.tracked[k]) this.tracked[k] = cloneableQuaternionToQuaternion(q);
+            q.set(this._weight === 1 ? this.tracked[k] : Quaternion.Slerp(idle(k), this.tracked[k], this._weight));
+        }
+    }
+
+    public reset() {
+        for (const k of Object.keys(this.tracked)) delete this.tracked[k];
+        this.lastTime = null;
+        this._weight = 1;
+    }
+}
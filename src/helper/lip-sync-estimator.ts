@@ -0,0 +1,272 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/*
+ * Audio only code. This module is also loaded into AudioWorkletGlobalScope,
+ * so it must not depend on DOM or BabylonJS.
+ */
+
+export interface Visemes {
+    A: number;
+    I: number;
+    U: number;
+    E: number;
+    O: number;
+}
+
+export interface LipSyncFrame {
+    // Seconds. Only set by offline analysis.
+    time?: number;
+    // Loudness in [0, 1]
+    volume: number;
+    visemes: Visemes;
+    // How much the audio estimate can be trusted, in [0, 1]
+    confidence: number;
+}
+
+export interface LipSyncOptions {
+    // Loudness range in dBFS mapped to volume [0, 1]
+    minVolumeDb: number;
+    maxVolumeDb: number;
+    // Linear prediction order for formant estimation
+    lpcOrder: number;
+    // Input is decimated to about this rate before LPC
+    analysisSampleRate: number;
+    // Exponential smoothing factor of output, 0 for none
+    smoothing: number;
+}
+
+export const DefaultLipSyncOptions: LipSyncOptions = Object.freeze({
+    minVolumeDb: -50,
+    maxVolumeDb: -15,
+    lpcOrder: 12,
+    analysisSampleRate: 11025,
+    smoothing: 0.5,
+});
+
+// Average adult (F1, F2) in Hz of Japanese vowels
+const VOWEL_FORMANTS: { [k in keyof Visemes]: [number, number] } = {
+    A: [800, 1200],
+    I: [300, 2300],
+    U: [350, 1300],
+    E: [500, 1900],
+    O: [500, 850],
+};
+const F1_SCALE = 200;
+const F2_SCALE = 500;
+const ENVELOPE_MAX_FREQUENCY = 4000;
+const ENVELOPE_STEP = 20;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Estimates loudness and vowel shape from mono PCM windows.
+ * Formants are the first two peaks of the LPC spectral envelope.
+ */
+export class LipSyncEstimator {
+    private readonly options: LipSyncOptions;
+    private readonly decimation: number;
+    private last: LipSyncFrame = {
+        volume: 0,
+        visemes: {A: 0, I: 0, U: 0, E: 0, O: 0},
+        confidence: 0,
+    };
+
+    constructor(
+        public readonly sampleRate: number,
+        options: Partial<LipSyncOptions> = {}
+    ) {
+        this.options = Object.assign({}, DefaultLipSyncOptions, options);
+        this.decimation = Math.max(1, Math.floor(sampleRate / this.options.analysisSampleRate));
+    }
+
+    /**
+     * Analyze one window of samples.
+     * @param samples Mono PCM in [-1, 1]
+     */
+    public process(samples: Float32Array): LipSyncFrame {
+        let energy = 0;
+        for (let i = 0; i < samples.length; ++i) energy += samples[i] * samples[i];
+        const rms = Math.sqrt(energy / Math.max(1, samples.length));
+        const db = 20 * Math.log10(Math.max(rms, 1e-9));
+        const volume = clamp01((db - this.options.minVolumeDb) /
+            (this.options.maxVolumeDb - this.options.minVolumeDb));
+
+        const visemes: Visemes = {A: 0, I: 0, U: 0, E: 0, O: 0};
+        let confidence = 0;
+        if (volume > 0) {
+            const formants = this.estimateFormants(samples);
+            if (formants) {
+                const scores = LipSyncEstimator.classifyVowel(formants[0], formants[1]);
+                for (const k of Object.keys(visemes) as (keyof Visemes)[]) {
+                    visemes[k] = scores[k] * volume;
+                }
+                confidence = clamp01(volume / 0.3);
+            } else {
+                // Voiced but no clear formants, e.g. noise. Only open the mouth.
+                visemes.A = volume;
+                confidence = clamp01(volume / 0.3) * 0.5;
+            }
+        }
+
+        return this.smooth({volume, visemes, confidence});
+    }
+
+    public reset() {
+        this.last = {
+            volume: 0,
+            visemes: {A: 0, I: 0, U: 0, E: 0, O: 0},
+            confidence: 0,
+        };
+    }
+
+    /**
+     * Soft assignment of (F1, F2) to vowels. Scores sum to 1.
+     */
+    public static classifyVowel(f1: number, f2: number): Visemes {
+        const ret: Visemes = {A: 0, I: 0, U: 0, E: 0, O: 0};
+        let sum = 0;
+        for (const [k, [rf1, rf2]] of Object.entries(VOWEL_FORMANTS)) {
+            const d = ((f1 - rf1) / F1_SCALE) ** 2 + ((f2 - rf2) / F2_SCALE) ** 2;
+            const score = Math.exp(-d);
+            ret[k as keyof Visemes] = score;
+            sum += score;
+        }
+        for (const k of Object.keys(ret) as (keyof Visemes)[]) {
+            ret[k] = sum > 0 ? ret[k] / sum : 0;
+        }
+        return ret;
+    }
+
+    private estimateFormants(samples: Float32Array): [number, number] | null {
+        // Decimate with box filter
+        const n = Math.floor(samples.length / this.decimation);
+        const order = this.options.lpcOrder;
+        if (n <= order * 2) return null;
+        const x = new Float64Array(n);
+        for (let i = 0; i < n; ++i) {
+            let s = 0;
+            for (let j = 0; j < this.decimation; ++j) s += samples[i * this.decimation + j];
+            x[i] = s / this.decimation;
+        }
+        const rate = this.sampleRate / this.decimation;
+
+        // Pre-emphasis and Hamming window
+        for (let i = n - 1; i > 0; --i) x[i] -= 0.97 * x[i - 1];
+        for (let i = 0; i < n; ++i) x[i] *= 0.54 - 0.46 * Math.cos(2 * Math.PI * i / (n - 1));
+
+        // Autocorrelation
+        const r = new Float64Array(order + 1);
+        for (let lag = 0; lag <= order; ++lag) {
+            let s = 0;
+            for (let i = lag; i < n; ++i) s += x[i] * x[i - lag];
+            r[lag] = s;
+        }
+        if (r[0] <= 0) return null;
+
+        const a = LipSyncEstimator.levinson(r, order);
+        if (!a) return null;
+
+        // Peaks of 1 / |A(e^jw)|
+        const maxFrequency = Math.min(ENVELOPE_MAX_FREQUENCY, rate / 2);
+        const envelope: number[] = [];
+        for (let f = 0; f <= maxFrequency; f += ENVELOPE_STEP) {
+            const w = 2 * Math.PI * f / rate;
+            let re = 1, im = 0;
+            for (let k = 1; k <= order; ++k) {
+                re += a[k] * Math.cos(k * w);
+                im -= a[k] * Math.sin(k * w);
+            }
+            envelope.push(1 / Math.max(re * re + im * im, 1e-12));
+        }
+        const peaks: number[] = [];
+        for (let i = 1; i < envelope.length - 1 && peaks.length < 2; ++i) {
+            const f = i * ENVELOPE_STEP;
+            if (f >= 200 && envelope[i] > envelope[i - 1] && envelope[i] >= envelope[i + 1]) {
+                peaks.push(f);
+            }
+        }
+        return peaks.length === 2 ? [peaks[0], peaks[1]] : null;
+    }
+
+    /**
+     * Levinson-Durbin recursion. Returns prediction polynomial with a[0] = 1.
+     */
+    private static levinson(r: Float64Array, order: number) {
+        const a = new Float64Array(order + 1);
+        const tmp = new Float64Array(order + 1);
+        a[0] = 1;
+        let error = r[0];
+        for (let i = 1; i <= order; ++i) {
+            let acc = r[i];
+            for (let j = 1; j < i; ++j) acc += a[j] * r[i - j];
+            const k = -acc / error;
+            tmp.set(a);
+            for (let j = 1; j < i; ++j) a[j] = tmp[j] + k * tmp[i - j];
+            a[i] = k;
+            error *= 1 - k * k;
+            if (error <= 0) return null;
+        }
+        return a;
+    }
+
+    private smooth(frame: LipSyncFrame) {
+        const s = this.options.smoothing;
+        const mix = (prev: number, cur: number) => prev * s + cur * (1 - s);
+        const ret: LipSyncFrame = {
+            volume: mix(this.last.volume, frame.volume),
+            visemes: {
+                A: mix(this.last.visemes.A, frame.visemes.A),
+                I: mix(this.last.visemes.I, frame.visemes.I),
+                U: mix(this.last.visemes.U, frame.visemes.U),
+                E: mix(this.last.visemes.E, frame.visemes.E),
+                O: mix(this.last.visemes.O, frame.visemes.O),
+            },
+            confidence: mix(this.last.confidence, frame.confidence),
+        };
+        this.last = ret;
+        return ret;
+    }
+}
+
+/**
+ * Run the estimator over PCM data offline, e.g. channel data of a decoded AudioBuffer.
+ * Produces the same frames as the AudioWorklet, so results are reproducible.
+ * @param samples Mono PCM in [-1, 1]
+ * @param sampleRate Sample rate of samples
+ * @param frameRate Output frames per second
+ * @param windowSize Analysis window in samples
+ * @param options Estimator options
+ */
+export function analyzeSamples(
+    samples: Float32Array,
+    sampleRate: number,
+    frameRate = 60,
+    windowSize = 1024,
+    options: Partial<LipSyncOptions> = {}
+): LipSyncFrame[] {
+    const estimator = new LipSyncEstimator(sampleRate, options);
+    const hop = sampleRate / frameRate;
+    const frames: LipSyncFrame[] = [];
+    for (let i = 0; ; ++i) {
+        const end = Math.round(i * hop) + windowSize;
+        if (end > samples.length) break;
+        const frame = estimator.process(samples.subarray(end - windowSize, end));
+        frame.time = end / sampleRate;
+        frames.push(frame);
+    }
+    return frames;
+}
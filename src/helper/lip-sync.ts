@@ -0,0 +1,144 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable} from "@babylonjs/core";
+import {analyzeSamples, LipSyncFrame, LipSyncOptions} from "./lip-sync-estimator";
+import {LipSyncProcessorOptions} from "../worker/lip-sync-processor";
+
+export type LipSyncSource = MediaStream | AudioBuffer | File | Blob;
+
+/**
+ * Runs lip sync estimation on microphone or audio file input inside an AudioWorklet.
+ * Microphone input is not played back. File input is played through speakers.
+ */
+export class LipSync {
+    private context: Nullable<AudioContext> = null;
+    private sourceNode: Nullable<AudioNode> = null;
+    private workletNode: Nullable<AudioWorkletNode> = null;
+    // Bumped by stop, so a start still loading knows it was cancelled
+    private generation = 0;
+
+    private _frame: Nullable<LipSyncFrame> = null;
+    get frame(): Nullable<LipSyncFrame> {
+        return this._frame;
+    }
+
+    get running(): boolean {
+        return this.context !== null;
+    }
+
+    constructor(
+        private readonly onFrame?: (frame: LipSyncFrame) => void,
+        private readonly options: Partial<LipSyncProcessorOptions> = {},
+    ) {}
+
+    /**
+     * @param source Microphone stream, decoded audio or an audio file
+     * @param loop Whether file input should loop
+     */
+    public async start(source: LipSyncSource, loop = false) {
+        this.stop();
+        const generation = this.generation;
+
+        const context = new AudioContext();
+        let bufferSource: Nullable<AudioBufferSourceNode> = null;
+        try {
+            await context.audioWorklet.addModule(new URL("../worker/lip-sync-processor", import.meta.url));
+            const buffer = source instanceof MediaStream || source instanceof AudioBuffer ?
+                null : await context.decodeAudioData(await source.arrayBuffer());
+            // Stopped or restarted while loading
+            if (generation !== this.generation) {
+                context.close();
+                return;
+            }
+
+            const workletNode = new AudioWorkletNode(context, 'lip-sync-processor', {
+                processorOptions: this.options,
+            });
+            workletNode.port.onmessage = (e: MessageEvent<LipSyncFrame>) => {
+                this._frame = e.data;
+                if (this.onFrame) this.onFrame(e.data);
+            };
+
+            let inputNode: AudioNode;
+            if (source instanceof MediaStream) {
+                inputNode = context.createMediaStreamSource(source);
+            } else {
+                bufferSource = context.createBufferSource();
+                bufferSource.buffer = source instanceof AudioBuffer ? source : buffer;
+                bufferSource.loop = loop;
+                workletNode.connect(context.destination);
+                inputNode = bufferSource;
+            }
+            inputNode.connect(workletNode);
+            await context.resume();
+            if (generation !== this.generation) {
+                workletNode.port.onmessage = null;
+                context.close();
+                return;
+            }
+
+            bufferSource?.start();
+            this.context = context;
+            this.sourceNode = inputNode;
+            this.workletNode = workletNode;
+        } catch (e) {
+            context.close();
+            throw e;
+        }
+    }
+
+    public stop() {
+        this.generation++;
+        this.sourceNode?.disconnect();
+        this.workletNode?.disconnect();
+        if (this.workletNode) this.workletNode.port.onmessage = null;
+        this.context?.close();
+        this.sourceNode = null;
+        this.workletNode = null;
+        this.context = null;
+        this._frame = null;
+    }
+}
+
+/**
+ * Analyze an audio file offline, without real time playback.
+ * Uses the same estimator as the AudioWorklet.
+ * @param source Decoded audio or an audio file
+ * @param frameRate Output frames per second
+ * @param options Estimator options
+ */
+export async function analyzeAudio(
+    source: AudioBuffer | File | Blob,
+    frameRate = 60,
+    options: Partial<LipSyncOptions> = {}
+) {
+    let buffer: AudioBuffer;
+    if (source instanceof AudioBuffer) {
+        buffer = source;
+    } else {
+        // Sample rate only matters for decoding, analysis follows the decoded rate
+        const context = new OfflineAudioContext(1, 1, 44100);
+        buffer = await context.decodeAudioData(await source.arrayBuffer());
+    }
+
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; ++c) {
+        const data = buffer.getChannelData(c);
+        for (let i = 0; i < mono.length; ++i) mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    return analyzeSamples(mono, buffer.sampleRate, frameRate, 1024, options);
+}
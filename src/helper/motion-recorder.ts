@@ -0,0 +1,191 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Matrix, Node, Nullable, Quaternion, TransformNode, Vector3} from "@babylonjs/core";
+import {TransformNodeTreeNode, VRMManager} from "v3d-core/dist/src/importer/babylon-vrm-loader/src";
+import {CloneableQuaternionMap, cloneableQuaternionToQuaternion} from "./quaternion";
+
+export interface MotionFrame {
+    // Milliseconds since recording started
+    time: number;
+    rotations: { [bone: string]: Quaternion };
+    // Root translation in model space
+    rootPosition: Vector3;
+    // Expression weights keyed by VRM blend shape group names
+    expressions: { [label: string]: number };
+}
+
+export interface MotionSkeleton {
+    tree: TransformNodeTreeNode;
+    // Rest offsets from humanoid parent in model space
+    restOffsets: { [bone: string]: Vector3 };
+}
+
+/**
+ * Convert a world space offset of root mesh to model (glTF node) space.
+ * @param vrmManager VRMManager of model
+ * @param v World space offset
+ */
+export function rootOffsetToModelSpace(vrmManager: VRMManager, v: Vector3) {
+    const rootMesh = vrmManager.rootMesh;
+    const inverse = Matrix.Compose(
+        rootMesh.scaling,
+        rootMesh.rotationQuaternion ?? Quaternion.Identity(),
+        Vector3.Zero()
+    ).invert();
+    return Vector3.TransformCoordinates(v, inverse);
+}
+
+/**
+ * Records bone rotations pushed from worker.
+ * Frames arrive at inference rate, use resample() to get a fixed frame rate.
+ */
+export class MotionRecorder {
+    private _frames: MotionFrame[] = [];
+    get frames(): MotionFrame[] {
+        return this._frames;
+    }
+
+    private _recording = false;
+    get recording(): boolean {
+        return this._recording;
+    }
+
+    private _skeleton: Nullable<MotionSkeleton> = null;
+    get skeleton(): Nullable<MotionSkeleton> {
+        return this._skeleton;
+    }
+
+    private startTime = 0;
+    private boneNames: string[] = [];
+    private vrmManager: Nullable<VRMManager> = null;
+
+    public start(vrmManager: VRMManager) {
+        this._frames = [];
+        this._skeleton = MotionRecorder.getSkeleton(vrmManager);
+        this.boneNames = Object.keys(this._skeleton.restOffsets);
+        this.vrmManager = vrmManager;
+
+        this.startTime = performance.now();
+        this._recording = true;
+    }
+
+    public stop() {
+        this._recording = false;
+        this.vrmManager = null;
+        return this._frames;
+    }
+
+    /**
+     * Add a frame.
+     * @param boneRotations Bone rotations from worker
+     * @param rootPosition Root mesh position, i.e. mid hip offset in world space
+     * @param expressions Expression weights
+     */
+    public addFrame(
+        boneRotations: CloneableQuaternionMap,
+        rootPosition: Vector3,
+        expressions: { [label: string]: number } = {}
+    ) {
+        if (!this._recording || !this.vrmManager) return;
+
+        const rotations: { [bone: string]: Quaternion } = {};
+        for (const k of this.boneNames) {
+            rotations[k] = boneRotations[k] ?
+                cloneableQuaternionToQuaternion(boneRotations[k]) : Quaternion.Identity();
+        }
+        this._frames.push({
+            time: performance.now() - this.startTime,
+            rotations: rotations,
+            rootPosition: rootOffsetToModelSpace(this.vrmManager, rootPosition),
+            expressions: Object.assign({}, expressions),
+        });
+    }
+
+    /**
+     * Resample recorded frames to a fixed frame rate.
+     * @param frameRate Target frames per second
+     */
+    public resample(frameRate: number): MotionFrame[] {
+        if (this._frames.length < 2) return this._frames.slice();
+
+        const ret: MotionFrame[] = [];
+        const frameTime = 1000 / frameRate;
+        const duration = this._frames[this._frames.length - 1].time;
+        let j = 0;
+        for (let t = 0; t <= duration; t += frameTime) {
+            while (j < this._frames.length - 2 && this._frames[j + 1].time < t) ++j;
+            const f0 = this._frames[j], f1 = this._frames[j + 1];
+            const span = f1.time - f0.time;
+            const a = span > 0 ? Math.min(Math.max((t - f0.time) / span, 0), 1) : 0;
+
+            const rotations: { [bone: string]: Quaternion } = {};
+            for (const k of this.boneNames) {
+                rotations[k] = Quaternion.Slerp(f0.rotations[k], f1.rotations[k], a);
+            }
+            const expressions: { [label: string]: number } = {};
+            for (const k of Object.keys(f0.expressions)) {
+                expressions[k] = f0.expressions[k] + ((f1.expressions[k] ?? 0) - f0.expressions[k]) * a;
+            }
+            ret.push({
+                time: t,
+                rotations: rotations,
+                rootPosition: Vector3.Lerp(f0.rootPosition, f1.rootPosition, a),
+                expressions: expressions,
+            });
+        }
+        return ret;
+    }
+
+    public reset() {
+        this._recording = false;
+        this.vrmManager = null;
+        this._frames = [];
+    }
+
+    /**
+     * Collect humanoid hierarchy and rest offsets.
+     * VRM humanoid rest poses have no rotation, so offsets are summed positions.
+     * @param vrmManager VRMManager of recorded model
+     */
+    public static getSkeleton(vrmManager: VRMManager): MotionSkeleton {
+        const tree = vrmManager.transformNodeTree;
+        const nodeMap = vrmManager.humanoidBone.nodeMap;
+        const rootMesh: Node = vrmManager.rootMesh;
+        const restPosition = (node: TransformNode) => {
+            const ret = Vector3.Zero();
+            let n: Nullable<Node> = node;
+            while (n && n !== rootMesh) {
+                if (n instanceof TransformNode) ret.addInPlace(n.position);
+                n = n.parent;
+            }
+            return ret;
+        };
+
+        const restOffsets: { [bone: string]: Vector3 } = {};
+        const walk = (n: TransformNodeTreeNode, parent: Nullable<TransformNodeTreeNode>) => {
+            const node = nodeMap[n.name];
+            if (!node) return;
+            restOffsets[n.name] = parent ?
+                restPosition(node).subtract(restPosition(nodeMap[parent.name])) :
+                restPosition(node);
+            n.children?.forEach((c) => walk(c, n));
+        };
+        walk(tree, null);
+
+        return {tree, restOffsets};
+    }
+}
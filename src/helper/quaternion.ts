@@ -22,6 +22,7 @@ import {
     FilterParams,
     GaussianVectorFilter,
     KalmanVectorFilter,
+    OneEuroVectorFilter,
 } from "./filter";
 
 export class CloneableQuaternionLite {
@@ -73,13 +74,55 @@ export interface CloneableQuaternionMap {
 }
 
 export type CloneableQuaternionList = CloneableQuaternion[];
+
+/*
+ * Scalar weights sent from worker as pseudo bones, packed 4 per bone, i.e. prefix0, prefix1 ...
+ */
+const weightBoneName = (prefix: string, i: number) => `${prefix}${i}`;
+
+export function initWeightBones(names: readonly string[], prefix: string, boneRotations: CloneableQuaternionMap) {
+    for (let i = 0; i < names.length; i += 4) {
+        // Zero quaternion, identity would set every fourth weight to 1
+        boneRotations[weightBoneName(prefix, i / 4)] = new CloneableQuaternion(new Quaternion(0, 0, 0, 0));
+    }
+}
+
+export function packWeights<K extends string>(
+    names: readonly K[],
+    prefix: string,
+    weights: { [k in K]?: number },
+    boneRotations: CloneableQuaternionMap
+) {
+    for (let i = 0; i < names.length; i += 4) {
+        const w = names.slice(i, i + 4).map((k) => weights[k]);
+        boneRotations[weightBoneName(prefix, i / 4)].set(
+            new Quaternion(w[0] ?? 0, w[1] ?? 0, w[2] ?? 0, w[3] ?? 0));
+    }
+}
+
+export function unpackWeights<K extends string>(
+    names: readonly K[],
+    prefix: string,
+    boneRotations: CloneableQuaternionMap
+): Nullable<{ [k in K]: number }> {
+    const weights = {} as { [k in K]: number };
+    for (let i = 0; i < names.length; i += 4) {
+        const q = boneRotations[weightBoneName(prefix, i / 4)];
+        if (!q) return null;
+        const values = [q.x, q.y, q.z, q.w];
+        names.slice(i, i + 4).forEach((k, j) => {
+            weights[k] = values[j];
+        });
+    }
+    return weights;
+}
 export const cloneableQuaternionToQuaternion = (q: CloneableQuaternionLite): Quaternion => {
     const ret = new Quaternion(q.x, q.y, q.z, q.w);
     return ret;
 };
 
 export class FilteredQuaternion {
-    private mainFilter: KalmanVectorFilter;
+    private mainFilter: OneEuroVectorFilter | KalmanVectorFilter;
     private readonly gaussianVectorFilter: Nullable<GaussianVectorFilter> = null;
 
     private _t = 0;
@@ -104,6 +147,13 @@ export class FilteredQuaternion {
     ) {
         if (params.type === "Kalman")
             this.mainFilter = new KalmanVectorFilter(params.R, params.Q);
+        else if (params.type === "OneEuro")
+            this.mainFilter = new OneEuroVectorFilter(
+                this.t,
+                this._rot.toEulerAngles(),
+                Vector3.Zero(),
+                params.oneEuroCutoff,
+                params.oneEuroBeta);
         else
             throw Error("Wrong filter type!");
         if (params.gaussianSigma)
@@ -457,3 +507,24 @@ export function scaleRotation(quaternion: Quaternion, scale: number) {
     angles.scaleInPlace(scale);
     return Quaternion.FromEulerVector(angles);
 }
+
+/**
+ * Decompose a rotation into swing and twist around an axis, q = swing * twist.
+ * @param quaternion Rotation to decompose
+ * @param axis Normalized twist axis
+ * @return Swing, twist and signed twist angle in radians
+ */
+export function decomposeSwingTwist(quaternion: Quaternion, axis: Vector3): [Quaternion, Quaternion, number] {
+    const projection = Vector3.Dot(new Vector3(quaternion.x, quaternion.y, quaternion.z), axis);
+    const twist = new Quaternion(axis.x * projection, axis.y * projection, axis.z * projection, quaternion.w);
+    if (twist.length() < 1e-9) {
+        // 180 degrees swing, twist is undefined
+        return [quaternion.clone(), Quaternion.Identity(), 0];
+    }
+    twist.normalize();
+    const swing = quaternion.multiply(Quaternion.Inverse(twist));
+    let angle = 2 * Math.atan2(projection, quaternion.w);
+    if (angle > Math.PI) angle -= Math.PI * 2;
+    if (angle < -Math.PI) angle += Math.PI * 2;
+    return [swing, twist, angle];
+}
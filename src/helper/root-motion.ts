@@ -0,0 +1,86 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, TransformNode, Vector3} from "@babylonjs/core";
+import {NormalizedLandmark} from "@mediapipe/holistic";
+
+export interface StageBounds {
+    // Avatar space, meters
+    min: [number, number, number];
+    max: [number, number, number];
+}
+
+export interface RootMotionOptions {
+    // Multiplier on top of body calibration scaling
+    scale: number;
+    lockX: boolean;
+    // Lock vertical movement, e.g. when seated
+    lockY: boolean;
+    // Lock depth. Depth is not tracked, so it is usually 0 anyway.
+    lockZ: boolean;
+    // Hips never rise above standing height, crouching still lowers them
+    grounded: boolean;
+    // Stage area, null for unbounded
+    bounds: Nullable<StageBounds>;
+}
+
+export const DefaultRootMotionOptions: RootMotionOptions = {
+    scale: 1,
+    lockX: false,
+    lockY: false,
+    lockZ: false,
+    grounded: false,
+    bounds: null,
+};
+
+/**
+ * Converts mid hip offsets from worker into avatar root translation.
+ * Offsets are already scaled by body calibration when the user is calibrated.
+ */
+export class RootMotion {
+    private _options: RootMotionOptions = Object.assign({}, DefaultRootMotionOptions);
+    get options(): RootMotionOptions {
+        return this._options;
+    }
+    set options(value: RootMotionOptions) {
+        if (value.bounds && value.bounds.min.some((v, i) => v > value.bounds!.max[i]))
+            throw Error("Stage bounds min must not exceed max!");
+        this._options = value;
+    }
+
+    /**
+     * @param offset Mid hip offset in landmark space, i.e. selfie mirrored
+     */
+    public toAvatarSpace(offset: NormalizedLandmark | Vector3) {
+        const o = this._options;
+        // Landmarks are mirrored and face towards -Z
+        const ret = new Vector3(-offset.x, offset.y, -offset.z).scaleInPlace(o.scale);
+        if (o.lockX) ret.x = 0;
+        if (o.lockY) ret.y = 0;
+        if (o.lockZ) ret.z = 0;
+        if (o.grounded) ret.y = Math.min(ret.y, 0);
+        if (o.bounds) {
+            ret.x = Math.min(Math.max(ret.x, o.bounds.min[0]), o.bounds.max[0]);
+            ret.y = Math.min(Math.max(ret.y, o.bounds.min[1]), o.bounds.max[1]);
+            ret.z = Math.min(Math.max(ret.z, o.bounds.min[2]), o.bounds.max[2]);
+        }
+        return ret;
+    }
+
+    public apply(rootMesh: TransformNode, offset: NormalizedLandmark | Vector3) {
+        rootMesh.position = this.toAvatarSpace(offset);
+    }
+}
@@ -0,0 +1,129 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+export interface InferenceStats {
+    // Completed frames per second
+    inferenceFps: number;
+    // Milliseconds, exponential moving averages
+    holisticLatency: number;
+    processLatency: number;
+    // Frames given up on after timeout
+    stalledFrames: number;
+}
+
+/**
+ * Decides when to send the next frame to Holistic.
+ * Only one frame is in flight, and sending is capped at target FPS.
+ * A frame is in flight from begin() until processDone(), i.e. Holistic and pose worker both finished.
+ */
+export class InferenceScheduler {
+    private static readonly SMOOTHING = 0.1;
+
+    private frameStartTime = 0;
+    private holisticDoneTime = 0;
+    private lastDoneTime = 0;
+
+    private _inFlight = false;
+    get inFlight(): boolean {
+        return this._inFlight;
+    }
+
+    private _stats: InferenceStats = {
+        inferenceFps: 0,
+        holisticLatency: 0,
+        processLatency: 0,
+        stalledFrames: 0,
+    };
+    get stats(): InferenceStats {
+        return Object.assign({}, this._stats);
+    }
+
+    /**
+     * @param targetFps Maximum inference rate. 0 for unlimited.
+     * @param timeout Milliseconds before an unfinished frame is given up on
+     */
+    constructor(
+        public targetFps = 30,
+        public timeout = 1000,
+    ) {}
+
+    public shouldSend(now = performance.now()) {
+        if (this._inFlight) {
+            if (now - this.frameStartTime < this.timeout) return false;
+            // Results never came back, e.g. Holistic was reset
+            this._inFlight = false;
+            this._stats.stalledFrames++;
+        }
+        return this.targetFps <= 0 || now - this.frameStartTime >= 1000 / this.targetFps;
+    }
+
+    public begin(now = performance.now()) {
+        this._inFlight = true;
+        this.frameStartTime = now;
+        this.holisticDoneTime = now;
+    }
+
+    /**
+     * @param latency Holistic latency. Measured from begin() if omitted.
+     */
+    public holisticDone(latency?: number) {
+        if (!this._inFlight) return;
+
+        const now = performance.now();
+        this.holisticDoneTime = now;
+        this._stats.holisticLatency = InferenceScheduler.ema(
+            this._stats.holisticLatency, latency ?? now - this.frameStartTime);
+    }
+
+    /**
+     * @param latency Pose worker latency. Measured from holisticDone() if omitted.
+     */
+    public processDone(latency?: number) {
+        if (!this._inFlight) return;
+
+        const now = performance.now();
+        this._inFlight = false;
+        this._stats.processLatency = InferenceScheduler.ema(
+            this._stats.processLatency, latency ?? now - this.holisticDoneTime);
+        if (this.lastDoneTime > 0) {
+            this._stats.inferenceFps = InferenceScheduler.ema(
+                this._stats.inferenceFps, 1000 / Math.max(1, now - this.lastDoneTime));
+        }
+        this.lastDoneTime = now;
+    }
+
+    /**
+     * Give up current frame, e.g. on error.
+     */
+    public cancel() {
+        this._inFlight = false;
+    }
+
+    public reset() {
+        this._inFlight = false;
+        this.lastDoneTime = 0;
+        this._stats = {
+            inferenceFps: 0,
+            holisticLatency: 0,
+            processLatency: 0,
+            stalledFrames: 0,
+        };
+    }
+
+    private static ema(prev: number, value: number) {
+        return prev === 0 ? value : prev + (value - prev) * InferenceScheduler.SMOOTHING;
+    }
+}
@@ -0,0 +1,159 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, Quaternion} from "@babylonjs/core";
+import {CloneableQuaternion, CloneableQuaternionMap} from "./quaternion";
+
+/*
+ * Bone rotations are sent as a flat Float32Array of [x, y, z, w] per bone.
+ * Bone order is fixed by the layout returned from Poses.setBonesHierarchyTree.
+ *
+ * With cross-origin isolation, frames are written into a SharedArrayBuffer ring instead:
+ *  Header: int32 sequence number of the latest complete frame
+ *  Slots:  BONE_ROTATION_RING_SLOTS frames, frame n lives in slot n % BONE_ROTATION_RING_SLOTS
+ * Reader only takes the latest frame. A torn read would need the writer to lap the ring during one read.
+ */
+export const BONE_ROTATION_STRIDE = 4;
+export const BONE_ROTATION_RING_SLOTS = 3;
+const RING_HEADER_LENGTH = Int32Array.BYTES_PER_ELEMENT;
+
+export interface BoneRotationLayout {
+    keys: string[];
+    sharedBuffer: Nullable<SharedArrayBuffer>;
+}
+
+export function createBoneRotationRing(boneCount: number) {
+    return new SharedArrayBuffer(RING_HEADER_LENGTH +
+        BONE_ROTATION_RING_SLOTS * boneCount * BONE_ROTATION_STRIDE * Float32Array.BYTES_PER_ELEMENT);
+}
+
+/**
+ * Worker side. Packs bone rotations into a Float32Array, or into the shared ring.
+ */
+export class BoneRotationEncoder {
+    private readonly header: Nullable<Int32Array> = null;
+    private readonly slots: Float32Array[] = [];
+
+    get shared(): boolean {
+        return this.header !== null;
+    }
+
+    constructor(
+        public readonly layout: BoneRotationLayout
+    ) {
+        const buffer = layout.sharedBuffer;
+        if (!buffer) return;
+
+        const slotLength = layout.keys.length * BONE_ROTATION_STRIDE;
+        this.header = new Int32Array(buffer, 0, 1);
+        for (let i = 0; i < BONE_ROTATION_RING_SLOTS; ++i) {
+            this.slots.push(new Float32Array(
+                buffer, RING_HEADER_LENGTH + i * slotLength * Float32Array.BYTES_PER_ELEMENT, slotLength));
+        }
+    }
+
+    /**
+     * Write bone rotations.
+     * @param boneRotations Bone rotations
+     * @return A transferable array, or null if frame was written into the shared ring
+     */
+    public encode(boneRotations: CloneableQuaternionMap): Nullable<Float32Array> {
+        if (this.header) {
+            const seq = Atomics.load(this.header, 0) + 1;
+            this.write(boneRotations, this.slots[seq % BONE_ROTATION_RING_SLOTS]);
+            Atomics.store(this.header, 0, seq);
+            return null;
+        }
+
+        const ret = new Float32Array(this.layout.keys.length * BONE_ROTATION_STRIDE);
+        this.write(boneRotations, ret);
+        return ret;
+    }
+
+    private write(boneRotations: CloneableQuaternionMap, out: Float32Array) {
+        this.layout.keys.forEach((k, i) => {
+            const q = boneRotations[k];
+            const offset = i * BONE_ROTATION_STRIDE;
+            out[offset] = q.x;
+            out[offset + 1] = q.y;
+            out[offset + 2] = q.z;
+            out[offset + 3] = q.w;
+        });
+    }
+}
+
+/**
+ * Main thread side. Unpacks frames into a reused bone rotation map.
+ */
+export class BoneRotationDecoder {
+    private layout: Nullable<BoneRotationLayout> = null;
+    private header: Nullable<Int32Array> = null;
+    private lastSequence = 0;
+
+    private _boneRotations: CloneableQuaternionMap = {};
+    get boneRotations(): CloneableQuaternionMap {
+        return this._boneRotations;
+    }
+
+    get ready(): boolean {
+        return this.layout !== null;
+    }
+
+    public setLayout(layout: BoneRotationLayout) {
+        this.layout = layout;
+        this.header = layout.sharedBuffer ? new Int32Array(layout.sharedBuffer, 0, 1) : null;
+        this.lastSequence = 0;
+
+        // Keep objects of existing bones, since they may still be referenced
+        const boneRotations: CloneableQuaternionMap = {};
+        for (const k of layout.keys) {
+            boneRotations[k] = this._boneRotations[k] ?? new CloneableQuaternion(Quaternion.Identity());
+        }
+        this._boneRotations = boneRotations;
+    }
+
+    /**
+     * Read a frame.
+     * @param data Frame data, or null to read the latest frame from the shared ring
+     * @return Whether a new frame was read
+     */
+    public decode(data: Nullable<Float32Array>): boolean {
+        if (!this.layout) return false;
+        const length = this.layout.keys.length * BONE_ROTATION_STRIDE;
+
+        if (!data) {
+            if (!this.header || !this.layout.sharedBuffer) return false;
+            const seq = Atomics.load(this.header, 0);
+            if (seq === this.lastSequence) return false;
+            this.lastSequence = seq;
+            data = new Float32Array(this.layout.sharedBuffer,
+                RING_HEADER_LENGTH + (seq % BONE_ROTATION_RING_SLOTS) * length * Float32Array.BYTES_PER_ELEMENT,
+                length);
+        }
+        // Frames sent before layout negotiation finished
+        if (data.length !== length) return false;
+
+        this.layout.keys.forEach((k, i) => {
+            const q = this._boneRotations[k];
+            const offset = i * BONE_ROTATION_STRIDE;
+            q.x = data![offset];
+            q.y = data![offset + 1];
+            q.z = data![offset + 2];
+            q.w = data![offset + 3];
+        });
+        return true;
+    }
+}
@@ -0,0 +1,172 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Nullable, Quaternion, Vector3} from "@babylonjs/core";
+import {VRMManager} from "v3d-core/dist/src/importer/babylon-vrm-loader/src";
+import {CloneableQuaternionMap, cloneableQuaternionToQuaternion} from "./quaternion";
+import {rootOffsetToModelSpace} from "./motion-recorder";
+
+export type OSCArgument = number | string | { type: 'i', value: number };
+
+const textEncoder = new TextEncoder();
+
+function oscPaddedLength(n: number) {
+    return (n + 4) & ~3;
+}
+
+function oscString(s: string) {
+    const bytes = textEncoder.encode(s);
+    const ret = new Uint8Array(oscPaddedLength(bytes.length));
+    ret.set(bytes);
+    return ret;
+}
+
+/**
+ * Encode an OSC message. Numbers are sent as float32, use {type: 'i'} for int32.
+ * @param address OSC address pattern
+ * @param args Message arguments
+ */
+export function encodeOSCMessage(address: string, args: OSCArgument[] = []) {
+    const typeTags = ',' + args.map((a) =>
+        typeof a === 'number' ? 'f' : typeof a === 'string' ? 's' : 'i').join('');
+    const parts: Uint8Array[] = [oscString(address), oscString(typeTags)];
+    for (const a of args) {
+        if (typeof a === 'string') {
+            parts.push(oscString(a));
+        } else {
+            const bytes = new Uint8Array(4);
+            const view = new DataView(bytes.buffer);
+            if (typeof a === 'number') view.setFloat32(0, a);
+            else view.setInt32(0, a.value);
+            parts.push(bytes);
+        }
+    }
+    return concatBytes(parts);
+}
+
+/**
+ * Encode OSC messages into a bundle with "immediately" time tag.
+ * @param messages Encoded OSC messages
+ */
+export function encodeOSCBundle(messages: Uint8Array[]) {
+    const parts: Uint8Array[] = [oscString('#bundle')];
+    const timeTag = new Uint8Array(8);
+    timeTag[7] = 1;
+    parts.push(timeTag);
+    for (const m of messages) {
+        const size = new Uint8Array(4);
+        new DataView(size.buffer).setInt32(0, m.length);
+        parts.push(size, m);
+    }
+    return concatBytes(parts);
+}
+
+function concatBytes(parts: Uint8Array[]) {
+    const ret = new Uint8Array(parts.reduce((p, c) => p + c.length, 0));
+    let offset = 0;
+    for (const p of parts) {
+        ret.set(p, offset);
+        offset += p.length;
+    }
+    return ret;
+}
+
+/**
+ * VRM (glTF) node space to Unity space. Unity is left-handed, Z is reversed.
+ */
+const toUnityPosition = (v: Vector3) => new Vector3(v.x, v.y, -v.z);
+const toUnityRotation = (q: Quaternion) => new Quaternion(-q.x, -q.y, q.z, q.w);
+
+// Unity HumanBodyBones names are capitalized VRM 0.x humanoid bone names.
+const toUnityBoneName = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+/**
+ * Sends bone rotations as VMC protocol messages over a WebSocket.
+ * Browsers cannot send UDP, so a bridge (scripts/vmc-bridge.js) forwards
+ * each WebSocket message as one OSC datagram.
+ */
+export class VMCSender {
+    private socket: Nullable<WebSocket> = null;
+    private readonly startTime = performance.now();
+
+    get connected(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    constructor(public readonly url = 'ws://localhost:39540') {}
+
+    public connect() {
+        return new Promise<void>((resolve, reject) => {
+            this.close();
+            const socket = new WebSocket(this.url);
+            socket.binaryType = 'arraybuffer';
+            socket.onopen = () => resolve();
+            socket.onerror = () => reject(Error(`Failed to connect to VMC bridge at ${this.url}`));
+            socket.onclose = () => {
+                if (this.socket === socket) this.socket = null;
+            };
+            this.socket = socket;
+        });
+    }
+
+    public close() {
+        this.socket?.close();
+        this.socket = null;
+    }
+
+    /**
+     * Send one frame.
+     * @param vrmManager VRMManager of model, for rest positions and root
+     * @param boneRotations Bone rotations from worker
+     * @param blendValues Blend shape values keyed by VRM blend shape group names
+     */
+    public send(
+        vrmManager: VRMManager,
+        boneRotations: CloneableQuaternionMap,
+        blendValues: { [label: string]: number }
+    ) {
+        if (!this.connected) return;
+
+        const messages: Uint8Array[] = [
+            encodeOSCMessage('/VMC/Ext/OK', [{type: 'i', value: 1}]),
+            encodeOSCMessage('/VMC/Ext/T', [(performance.now() - this.startTime) / 1000]),
+        ];
+
+        // Root
+        const rootPos = toUnityPosition(rootOffsetToModelSpace(vrmManager, vrmManager.rootMesh.position));
+        messages.push(encodeOSCMessage('/VMC/Ext/Root/Pos', [
+            'root', rootPos.x, rootPos.y, rootPos.z, 0, 0, 0, 1,
+        ]));
+
+        // Bones
+        for (const [name, node] of Object.entries(vrmManager.humanoidBone.nodeMap)) {
+            if (!boneRotations[name]) continue;
+            const pos = toUnityPosition(node.position);
+            const rot = toUnityRotation(cloneableQuaternionToQuaternion(boneRotations[name]));
+            messages.push(encodeOSCMessage('/VMC/Ext/Bone/Pos', [
+                toUnityBoneName(name), pos.x, pos.y, pos.z, rot.x, rot.y, rot.z, rot.w,
+            ]));
+        }
+
+        // Blend shapes
+        for (const [k, v] of Object.entries(blendValues)) {
+            messages.push(encodeOSCMessage('/VMC/Ext/Blend/Val', [k, v]));
+        }
+        messages.push(encodeOSCMessage('/VMC/Ext/Blend/Apply'));
+
+        this.socket!.send(encodeOSCBundle(messages));
+    }
+}
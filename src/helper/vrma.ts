@@ -0,0 +1,316 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {Quaternion, Vector3} from "@babylonjs/core";
+import {TransformNodeTreeNode} from "v3d-core/dist/src/importer/babylon-vrm-loader/src";
+import {MotionFrame, MotionSkeleton} from "./motion-recorder";
+
+export interface GLTFAnimationExportOptions {
+    frameRate: number;
+    // Write VRMC_vrm_animation extension and convert to VRM 1.0 conventions.
+    vrma: boolean;
+    name: string;
+}
+
+export const DefaultGLTFAnimationExportOptions: GLTFAnimationExportOptions = Object.freeze({
+    frameRate: 30,
+    vrma: true,
+    name: 'v3d-web',
+});
+
+// VRM 1.0 renamed thumb bones
+const VRM1_BONE_NAMES: { [bone: string]: string } = {
+    leftThumbProximal: 'leftThumbMetacarpal',
+    leftThumbIntermediate: 'leftThumbProximal',
+    rightThumbProximal: 'rightThumbMetacarpal',
+    rightThumbIntermediate: 'rightThumbProximal',
+};
+
+// VRM 0.x blend shape group names to VRM 1.0 expression presets
+const VRM1_EXPRESSION_PRESETS: { [label: string]: string } = {
+    Neutral: 'neutral',
+    A: 'aa',
+    I: 'ih',
+    U: 'ou',
+    E: 'ee',
+    O: 'oh',
+    Blink: 'blink',
+    Blink_L: 'blinkLeft',
+    Blink_R: 'blinkRight',
+    Joy: 'happy',
+    Happy: 'happy',
+    Angry: 'angry',
+    Sorrow: 'sad',
+    Sad: 'sad',
+    Fun: 'relaxed',
+    Relaxed: 'relaxed',
+    Surprised: 'surprised',
+};
+
+const GLB_MAGIC = 0x46546C67;
+const GLB_CHUNK_JSON = 0x4E4F534A;
+const GLB_CHUNK_BIN = 0x004E4942;
+const GL_FLOAT = 5126;
+
+// Minimal glTF 2.0 shapes written by this exporter
+type GLTFAccessorType = 'SCALAR' | 'VEC3' | 'VEC4';
+interface GLTFBufferView {
+    buffer: number;
+    byteOffset: number;
+    byteLength: number;
+}
+interface GLTFAccessor {
+    bufferView: number;
+    componentType: number;
+    count: number;
+    type: GLTFAccessorType;
+    min?: number[];
+    max?: number[];
+}
+interface GLTFNode {
+    name: string;
+    translation?: number[];
+    children?: number[];
+}
+interface GLTFAnimationSampler {
+    input: number;
+    output: number;
+    interpolation: 'LINEAR' | 'STEP' | 'CUBICSPLINE';
+}
+interface GLTFAnimationChannel {
+    sampler: number;
+    target: { node: number; path: 'rotation' | 'translation' };
+}
+type VRMAnimationBoneMap = { [name: string]: { node: number } };
+interface GLTFDocument {
+    asset: { version: string; generator: string };
+    scene: number;
+    scenes: { nodes: number[] }[];
+    nodes: GLTFNode[];
+    animations: { name: string; channels: GLTFAnimationChannel[]; samplers: GLTFAnimationSampler[] }[];
+    buffers: { byteLength: number }[];
+    bufferViews: GLTFBufferView[];
+    accessors: GLTFAccessor[];
+    extensionsUsed?: string[];
+    extensions?: {
+        VRMC_vrm_animation: {
+            specVersion: string;
+            humanoid: { humanBones: VRMAnimationBoneMap };
+            expressions: { preset: VRMAnimationBoneMap; custom: VRMAnimationBoneMap };
+        };
+    };
+}
+
+/**
+ * Collects float arrays into a single binary buffer with accessors.
+ */
+class GLTFBufferBuilder {
+    private readonly chunks: Float32Array[] = [];
+    private byteLength = 0;
+    public readonly bufferViews: GLTFBufferView[] = [];
+    public readonly accessors: GLTFAccessor[] = [];
+
+    public addAccessor(data: Float32Array, type: GLTFAccessorType, withBounds = false) {
+        const components = type === 'SCALAR' ? 1 : type === 'VEC3' ? 3 : 4;
+        this.bufferViews.push({
+            buffer: 0,
+            byteOffset: this.byteLength,
+            byteLength: data.byteLength,
+        });
+        this.chunks.push(data);
+        this.byteLength += data.byteLength;
+
+        const accessor: GLTFAccessor = {
+            bufferView: this.bufferViews.length - 1,
+            componentType: GL_FLOAT,
+            count: data.length / components,
+            type: type,
+        };
+        if (withBounds) {
+            const min = new Array(components).fill(Infinity);
+            const max = new Array(components).fill(-Infinity);
+            for (let i = 0; i < data.length; ++i) {
+                min[i % components] = Math.min(min[i % components], data[i]);
+                max[i % components] = Math.max(max[i % components], data[i]);
+            }
+            accessor.min = min;
+            accessor.max = max;
+        }
+        this.accessors.push(accessor);
+        return this.accessors.length - 1;
+    }
+
+    public toArrayBuffer() {
+        const ret = new Uint8Array(this.byteLength);
+        let offset = 0;
+        for (const c of this.chunks) {
+            ret.set(new Uint8Array(c.buffer, c.byteOffset, c.byteLength), offset);
+            offset += c.byteLength;
+        }
+        return ret;
+    }
+}
+
+/**
+ * Pack glTF JSON and binary buffer into a GLB container.
+ */
+function packGLB(json: GLTFDocument, bin: Uint8Array) {
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+    const jsonLength = Math.ceil(jsonBytes.length / 4) * 4;
+    const binLength = Math.ceil(bin.length / 4) * 4;
+    const totalLength = 12 + 8 + jsonLength + 8 + binLength;
+
+    const ret = new ArrayBuffer(totalLength);
+    const view = new DataView(ret);
+    const bytes = new Uint8Array(ret);
+    view.setUint32(0, GLB_MAGIC, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, totalLength, true);
+
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, GLB_CHUNK_JSON, true);
+    bytes.set(jsonBytes, 20);
+    // JSON chunk is padded with spaces
+    bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength);
+
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, GLB_CHUNK_BIN, true);
+    bytes.set(bin, binStart + 8);
+
+    return ret;
+}
+
+/**
+ * Bake frames into a glTF binary with one animation clip.
+ * With options.vrma, the file is a VRM Animation (.vrma) targeting humanoid bones and expressions.
+ * VRM 1.0 models face +Z, so VRM 0.x data is rotated 180 degrees around Y.
+ * @param skeleton Skeleton captured when recording started
+ * @param frames Frames resampled to options.frameRate
+ * @param options Export options
+ */
+export function exportGLTFAnimation(
+    skeleton: MotionSkeleton,
+    frames: MotionFrame[],
+    options: Partial<GLTFAnimationExportOptions> = {}
+) {
+    const opts: GLTFAnimationExportOptions = Object.assign({}, DefaultGLTFAnimationExportOptions, options);
+    if (frames.length === 0) throw Error("No frames to export!");
+
+    const convertVector = (v: Vector3) => opts.vrma ? new Vector3(-v.x, v.y, -v.z) : v;
+    const convertQuaternion = (q: Quaternion) => opts.vrma ? new Quaternion(-q.x, q.y, -q.z, q.w) : q;
+    const boneName = (name: string) => opts.vrma ? VRM1_BONE_NAMES[name] ?? name : name;
+
+    const builder = new GLTFBufferBuilder();
+    const nodes: GLTFNode[] = [];
+    const channels: GLTFAnimationChannel[] = [];
+    const samplers: GLTFAnimationSampler[] = [];
+    const humanBones: VRMAnimationBoneMap = {};
+
+    const timeAccessor = builder.addAccessor(
+        Float32Array.from(frames, (f, i) => i / opts.frameRate), 'SCALAR', true);
+    const addChannel = (node: number, path: 'rotation' | 'translation', data: Float32Array) => {
+        samplers.push({
+            input: timeAccessor,
+            output: builder.addAccessor(data, path === 'rotation' ? 'VEC4' : 'VEC3'),
+            interpolation: 'LINEAR',
+        });
+        channels.push({sampler: samplers.length - 1, target: {node, path}});
+    };
+
+    // Humanoid bones
+    const writeNode = (n: TransformNodeTreeNode, isRoot: boolean): number => {
+        const nodeIdx = nodes.length;
+        const node: GLTFNode = {
+            name: boneName(n.name),
+            translation: convertVector(skeleton.restOffsets[n.name]).asArray(),
+        };
+        nodes.push(node);
+        humanBones[boneName(n.name)] = {node: nodeIdx};
+
+        const rotations = new Float32Array(frames.length * 4);
+        frames.forEach((f, i) => {
+            convertQuaternion(f.rotations[n.name] ?? Quaternion.Identity())
+                .normalize().toArray(rotations, i * 4);
+        });
+        addChannel(nodeIdx, 'rotation', rotations);
+
+        if (isRoot) {
+            const translations = new Float32Array(frames.length * 3);
+            frames.forEach((f, i) => {
+                convertVector(skeleton.restOffsets[n.name].add(f.rootPosition))
+                    .toArray(translations, i * 3);
+            });
+            addChannel(nodeIdx, 'translation', translations);
+        }
+
+        const children = (n.children ?? [])
+            .filter((c) => skeleton.restOffsets[c.name])
+            .map((c) => writeNode(c, false));
+        if (children.length > 0) node.children = children;
+        return nodeIdx;
+    };
+    const sceneNodes = [writeNode(skeleton.tree, true)];
+
+    // Expressions are animated via translation.x of dedicated nodes
+    const expressionNames = new Map<string, string[]>();
+    for (const label of Object.keys(frames[0].expressions)) {
+        const name = opts.vrma ? VRM1_EXPRESSION_PRESETS[label] ?? label : label;
+        expressionNames.set(name, (expressionNames.get(name) ?? []).concat(label));
+    }
+    const preset: VRMAnimationBoneMap = {};
+    const custom: VRMAnimationBoneMap = {};
+    for (const [name, labels] of expressionNames.entries()) {
+        const nodeIdx = nodes.length;
+        nodes.push({name: `Expression_${name}`});
+        sceneNodes.push(nodeIdx);
+        if (Object.values(VRM1_EXPRESSION_PRESETS).includes(name)) {
+            preset[name] = {node: nodeIdx};
+        } else {
+            custom[name] = {node: nodeIdx};
+        }
+
+        const weights = new Float32Array(frames.length * 3);
+        frames.forEach((f, i) => {
+            weights[i * 3] = Math.max(...labels.map((l) => f.expressions[l] ?? 0));
+        });
+        addChannel(nodeIdx, 'translation', weights);
+    }
+
+    const bin = builder.toArrayBuffer();
+    const json: GLTFDocument = {
+        asset: {version: '2.0', generator: 'v3d-web'},
+        scene: 0,
+        scenes: [{nodes: sceneNodes}],
+        nodes: nodes,
+        animations: [{name: opts.name, channels, samplers}],
+        buffers: [{byteLength: bin.byteLength}],
+        bufferViews: builder.bufferViews,
+        accessors: builder.accessors,
+    };
+    if (opts.vrma) {
+        json.extensionsUsed = ['VRMC_vrm_animation'];
+        json.extensions = {
+            VRMC_vrm_animation: {
+                specVersion: '1.0',
+                humanoid: {humanBones},
+                expressions: {preset, custom},
+            },
+        };
+    }
+
+    return packGLB(json, bin);
+}
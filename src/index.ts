@@ -17,3 +17,30 @@ Copyright (C) 2021  The v3d Authors.
 export * from "./v3d-web";
 export type {CloneableQuaternionMap} from "./helper/quaternion";
 export type {HolisticOptions} from "./mediapipe";
+export type {InputSource} from "./helper/input-source";
+export type {MotionFrame} from "./helper/motion-recorder";
+export type {BVHExportOptions} from "./helper/bvh";
+export type {GLTFAnimationExportOptions} from "./helper/vrma";
+export type {LandmarkSessionPlayer} from "./helper/landmark-session";
+export type {VMCSender} from "./helper/vmc";
+export type {InferenceStats} from "./helper/scheduler";
+export type {RootMotionOptions, StageBounds} from "./helper/root-motion";
+export type {JointLimit, JointLimitOverrides} from "./helper/joint-limits";
+export {DefaultJointLimits} from "./helper/joint-limits";
+export type {ARKitBlendshape, BlendshapeWeights} from "./helper/blendshape";
+export type {Emotion, EmotionWeights} from "./helper/emotion";
+export type {Gesture, GestureEvent, GestureHand, GestureListener} from "./helper/gesture";
+export type {IdlePose, LimbFadeDuration, LimbFadeDurations, LimbGroup} from "./helper/limb-fade";
+export type {IdleOptions} from "./helper/idle";
+export type {FilterConfig, FilterGroup, FilterParams, FilterPreset} from "./helper/filter";
+export {FilterPresets} from "./helper/filter";
+export type {
+    BodyCalibrationPose,
+    BodyCalibrationProfile,
+    FaceCalibrationProfile,
+    FaceCalibrationStep
+} from "./helper/calibration";
+export type {LipSyncSource} from "./helper/lip-sync";
+export type {LipSyncFrame, Visemes} from "./helper/lip-sync-estimator";
+export {analyzeAudio} from "./helper/lip-sync";
+export {analyzeSamples} from "./helper/lip-sync-estimator";
@@ -40,8 +40,9 @@ import {
 import {Data, drawConnectors, drawLandmarks, lerp} from "@mediapipe/drawing_utils";
 import {Poses} from "./worker/pose-processing";
 import {debugInfo, updateBuffer} from "./core";
-import {Vector3, Nullable} from "@babylonjs/core";
+import {Nullable} from "@babylonjs/core";
 import {VRMManager} from "v3d-core/dist/src/importer/babylon-vrm-loader/src";
+import {RootMotion} from "./helper/root-motion";
 
 function removeElements(
     landmarks: NormalizedLandmarkList, elements: number[]) {
@@ -106,9 +107,12 @@ export function onResults(
     videoCanvasElement: Nullable<HTMLCanvasElement> | undefined,
     workerPose: Comlink.Remote<Poses>,
     activeEffect: string,
-    proxiedCallback: ((data: Uint8Array) => void) & Comlink.ProxyMarked,
-    fpsControl: Nullable<FPS>
-): void {
+    proxiedCallback: ((data: Nullable<Float32Array>) => void) & Comlink.ProxyMarked,
+    fpsControl: Nullable<FPS>,
+    rootMotion: RootMotion,
+    processed = false,
+    frameTime?: number
+): Promise<void> {
 
     // notify loaded.
     document.body.classList.add('loaded');
@@ -116,10 +120,11 @@ export function onResults(
     // @ts-ignore: delete camera input to prevent accidental paint
     delete results.image;
 
-    // Worker process
-    workerPose.process(
+    // Worker process. Results from holistic worker are already processed.
+    const processing = (processed ? Promise.resolve() : workerPose.process(
         (({segmentationMask, image, ...o}) => o)(results),    // Remove canvas properties
-    )
+        frameTime,
+    ))
         .then(async (r) => {
             if (debugInfo) {
                 const resultPoseLandmarks = await workerPose.cloneablePoseLandmarks;
@@ -140,8 +145,7 @@ export function onResults(
             }
 
             workerPose.midHipPos.then((v) => {
-                if (v)
-                    vrmManager.rootMesh.position = new Vector3(-v.x, v.y, -v.z);
+                if (v) rootMotion.apply(vrmManager.rootMesh, v);
             });
         });
 
@@ -152,9 +156,9 @@ export function onResults(
     if (fpsControl) fpsControl.tick();
 
     // Get canvas context
-    if (!videoCanvasElement) return;
+    if (!videoCanvasElement) return processing;
     const videoCanvasCtx = videoCanvasElement.getContext('2d');
-    if (!videoCanvasCtx) return;
+    if (!videoCanvasCtx) return processing;
 
     // Draw the overlays.
     videoCanvasCtx.save();
@@ -293,9 +297,11 @@ export function onResults(
     }
 
     videoCanvasCtx.restore();
+
+    return processing;
 }
 
-export function setHolisticOptions(x: OptionMap, videoElement: HTMLVideoElement, activeEffect: string, holistic: Holistic) {
+export function setHolisticOptions(x: OptionMap, videoElement: HTMLVideoElement, activeEffect: string, holistic: Pick<Holistic, 'setOptions'>) {
     const options = x as HolisticOptions;
     videoElement.classList.toggle('selfie', options.selfieMode);
     if (options.cameraOn) {
@@ -308,7 +314,7 @@ export function setHolisticOptions(x: OptionMap, videoElement: HTMLVideoElement,
 }
 
 export function createControlPanel(
-    holistic: Holistic,
+    holistic: Pick<Holistic, 'setOptions'>,
     videoElement: HTMLVideoElement,
     controlsElement: HTMLDivElement,
     activeEffect: string,
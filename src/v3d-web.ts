@@ -29,31 +29,78 @@ import {FPS} from "@mediapipe/control_utils";
 import {Holistic, HolisticConfig, Results} from "@mediapipe/holistic";
 
 import {Poses, poseWrapper} from "./worker/pose-processing";
-import {createScene, updateBuffer, updatePose, updateSpringBones} from "./core";
+import {blinkLabels, calcExpressionWeights, createScene, updateBuffer, updatePose, updateSpringBones} from "./core";
 import {createControlPanel, HolisticOptions, InitHolisticOptions, onResults, setHolisticOptions} from "./mediapipe";
 import {VRMManager} from "v3d-core/dist/src/importer/babylon-vrm-loader/src";
 import {V3DCore} from "v3d-core/dist/src";
 import {CloneableQuaternionMap} from "./helper/quaternion";
 import {CustomLoadingScreen} from "./helper/utils";
+import {InputSource, VideoInputSource} from "./helper/input-source";
+import {MotionRecorder} from "./helper/motion-recorder";
+import {BVHExportOptions, exportBVH} from "./helper/bvh";
+import {exportGLTFAnimation, GLTFAnimationExportOptions} from "./helper/vrma";
+import {VMCSender} from "./helper/vmc";
+import {BoneRotationDecoder} from "./helper/transport";
+import {HolisticWorkerPipeline} from "./helper/holistic-pipeline";
+import {InferenceScheduler, InferenceStats} from "./helper/scheduler";
+import {LipSync, LipSyncSource} from "./helper/lip-sync";
+import {LipSyncFrame} from "./helper/lip-sync-estimator";
+import {RootMotion, RootMotionOptions} from "./helper/root-motion";
+import {JointLimitOverrides} from "./helper/joint-limits";
+import {IdlePose, LimbFadeDurations} from "./helper/limb-fade";
+import {IdleLayer, IdleOptions} from "./helper/idle";
+import {FilterConfig, FilterPreset} from "./helper/filter";
+import {Gesture, GestureHand, GestureListener, unpackGestures} from "./helper/gesture";
+import {
+    BodyCalibrationPose,
+    BodyCalibrationProfile,
+    FACE_CALIBRATION_STEPS,
+    FaceCalibrationProfile,
+    FaceCalibrationStep
+} from "./helper/calibration";
+import {
+    decodeLandmarkSession,
+    LandmarkSessionPlayer,
+    LandmarkSessionRecorder
+} from "./helper/landmark-session";
 
 
 export interface HolisticState {
     ready: boolean;
     activeEffect: string;
-    holisticUpdate: boolean;
+    workerInference: boolean;
+    // Media time in seconds of the frame last sent to Holistic
+    frameTime: number;
 }
 export interface BoneState {
     boneRotations: Nullable<CloneableQuaternionMap>;
     bonesNeedUpdate: boolean;
+    lipSync: Nullable<LipSyncFrame>;
 }
 export interface BoneOptions {
     blinkLinkLR: boolean;
-    expression: "Neutral" | "Happy" | "Angry" | "Sad" | "Relaxed" | "Surprised";
+    // "Auto" follows detected facial expression, others are fixed overrides
+    expression: "Auto" | "Neutral" | "Happy" | "Angry" | "Sad" | "Relaxed" | "Surprised";
     irisLockX: boolean;
+    // Share of head rotation on neck in [0, 1], the rest is on head
+    neckRatio: number;
     lockFinger: boolean;
     lockArm: boolean;
     lockLeg: boolean;
+    // Solve legs with IK and keep planted feet on the ground
+    legIK: boolean;
+    // Share of wrist roll on lower arm in [0, 1], the rest is on hand
+    armTwistRatio: number;
+    // Maximum roll in radians per joint
+    twistLimits: { lowerArm: number; hand: number };
+    // Clamp bones into anatomical joint limits
+    jointLimits: boolean;
+    // Fade lost limbs to idle pose and everything else to rest pose
     resetInvisible: boolean;
+    // Fade durations per limb group in seconds, with resetInvisible
+    limbFade: LimbFadeDurations;
+    // Landmark smoothing, a preset or groups to change from "balanced"
+    filters: FilterPreset | Partial<FilterConfig>;
 }
 
 export class V3DWeb {
@@ -62,15 +109,27 @@ export class V3DWeb {
     private boneState: BoneState = {
         boneRotations: null,
         bonesNeedUpdate: false,
+        lipSync: null,
     }
     private _boneOptions: BoneOptions = {
         blinkLinkLR: true,
         expression: "Neutral",
         irisLockX: true,
+        neckRatio: 0.5,
         lockFinger: false,
         lockArm: false,
         lockLeg: false,
+        legIK: false,
+        armTwistRatio: 0.5,
+        twistLimits: {lowerArm: Math.PI, hand: Math.PI / 2},
+        jointLimits: true,
         resetInvisible: false,
+        limbFade: {
+            hand: {fadeOut: 0.3, fadeIn: 0.2},
+            arm: {fadeOut: 0.5, fadeIn: 0.3},
+            leg: {fadeOut: 0.5, fadeIn: 0.3},
+        },
+        filters: "balanced",
     }
     get boneOptions(): BoneOptions {
         return this._boneOptions;
@@ -79,9 +138,90 @@ export class V3DWeb {
         this._boneOptions = value;
         this.workerPose?.updateBoneOptions(this._boneOptions);
     }
-    private readonly _updateBufferCallback = Comlink.proxy((data: Uint8Array) => {
-        updateBuffer(data, this.boneState)
+    private readonly boneRotationDecoder = new BoneRotationDecoder();
+    private readonly _updateBufferCallback = Comlink.proxy((data: Nullable<Float32Array>) => {
+        updateBuffer(data, this.boneState, this.boneRotationDecoder);
+        if (this.boneState.boneRotations) this.emitGestures(this.boneState.boneRotations);
+        if (!this.boneState.boneRotations || !this._vrmManager) return;
+        if (!this.motionRecorder.recording && !this.vmcSender?.connected) return;
+
+        const expressions = calcExpressionWeights(
+            this.boneState.boneRotations, this.boneOptions, this._vrmManager, this.boneState.lipSync);
+        if (this.motionRecorder.recording) {
+            this.motionRecorder.addFrame(
+                this.boneState.boneRotations, this._vrmManager.rootMesh.position, expressions);
+        }
+        if (this.vmcSender?.connected) {
+            this.vmcSender.send(this._vrmManager, this.boneState.boneRotations, expressions);
+        }
+    });
+
+    private readonly gestureListeners = new Set<GestureListener>();
+    private gestures: { [hand in GestureHand]: Nullable<Gesture> } = {left: null, right: null};
+
+    private readonly motionRecorder = new MotionRecorder();
+    get isMotionRecording(): boolean {
+        return this.motionRecorder.recording;
+    }
+
+    private readonly landmarkRecorder = new LandmarkSessionRecorder();
+    get isLandmarkRecording(): boolean {
+        return this.landmarkRecorder.recording;
+    }
+    private landmarkPlayer: Nullable<LandmarkSessionPlayer> = null;
+
+    private readonly lipSync = new LipSync((frame) => {
+        this.boneState.lipSync = frame;
+        // Keep mouth moving when inference stalls, e.g. camera paused
+        if (this.boneState.boneRotations) this.boneState.bonesNeedUpdate = true;
     });
+    get isLipSyncRunning(): boolean {
+        return this.lipSync.running;
+    }
+
+    private vmcSender: Nullable<VMCSender> = null;
+    get isVMCConnected(): boolean {
+        return this.vmcSender?.connected ?? false;
+    }
+
+    private _faceCalibration: Nullable<FaceCalibrationProfile> = null;
+    // Store and restore this to skip calibration for returning users
+    get faceCalibration(): Nullable<FaceCalibrationProfile> {
+        return this._faceCalibration;
+    }
+    set faceCalibration(value: Nullable<FaceCalibrationProfile>) {
+        this._faceCalibration = value;
+        this.workerPose?.setFaceCalibration(value);
+    }
+
+    private _bodyCalibration: Nullable<BodyCalibrationProfile> = null;
+    get bodyCalibration(): Nullable<BodyCalibrationProfile> {
+        return this._bodyCalibration;
+    }
+    set bodyCalibration(value: Nullable<BodyCalibrationProfile>) {
+        this._bodyCalibration = value;
+        this.workerPose?.setBodyCalibration(value);
+    }
+
+    private _jointLimits: JointLimitOverrides = {};
+    // Per model overrides of default joint limits, kept until replaced
+    get jointLimits(): JointLimitOverrides {
+        return this._jointLimits;
+    }
+    set jointLimits(value: JointLimitOverrides) {
+        this._jointLimits = value;
+        this.workerPose?.setJointLimits(value);
+    }
+
+    private _idlePose: IdlePose = {};
+    // Pose lost limbs fade to, keyed by bone name. Bones not in it use the default rest pose.
+    get idlePose(): IdlePose {
+        return this._idlePose;
+    }
+    set idlePose(value: IdlePose) {
+        this._idlePose = value;
+        this.workerPose?.setIdlePose(value);
+    }
 
     private customLoadingScreen: Nullable<CustomLoadingScreen> = null;
 
@@ -105,7 +245,8 @@ export class V3DWeb {
     private holisticState: HolisticState = {
         ready: false,
         activeEffect: 'mask',
-        holisticUpdate: false,
+        workerInference: false,
+        frameTime: 0,
     };
     private _holisticOptions = Object.assign({}, InitHolisticOptions);
     get holisticOptions(): HolisticOptions {
@@ -113,7 +254,45 @@ export class V3DWeb {
     }
     set holisticOptions(value: HolisticOptions) {
         this._holisticOptions = value;
-        setHolisticOptions(value, this.videoElement!, this.holisticState.activeEffect, this.holistic);
+        setHolisticOptions(value, this.videoElement!, this.holisticState.activeEffect, this.holisticBackend);
+    }
+    private readonly scheduler = new InferenceScheduler();
+    get inferenceStats(): InferenceStats {
+        return this.scheduler.stats;
+    }
+    // Maximum inference rate, 0 for unlimited
+    get targetFps(): number {
+        return this.scheduler.targetFps;
+    }
+    set targetFps(value: number) {
+        this.scheduler.targetFps = value;
+    }
+    private holisticPipeline: Nullable<HolisticWorkerPipeline> = null;
+    private readonly rootMotion = new RootMotion();
+    get rootMotionOptions(): RootMotionOptions {
+        return this.rootMotion.options;
+    }
+    set rootMotionOptions(value: RootMotionOptions) {
+        this.rootMotion.options = value;
+    }
+    private readonly idleLayer = new IdleLayer();
+    get idleOptions(): IdleOptions {
+        return this.idleLayer.options;
+    }
+    set idleOptions(value: IdleOptions) {
+        this.idleLayer.options = value;
+    }
+    // Whichever runs inference, worker pipeline or main thread Holistic
+    private get holisticBackend(): Pick<Holistic, 'setOptions' | 'reset'> {
+        return this.holisticPipeline ?? this.holistic;
+    }
+
+    private readonly inputSource: VideoInputSource;
+    get inputCurrentTime(): number {
+        return this.inputSource.currentTime;
+    }
+    get inputDuration(): number {
+        return this.inputSource.duration;
     }
 
     private _cameraList: MediaDeviceInfo[] = [];
@@ -146,6 +325,7 @@ export class V3DWeb {
         if (!this.videoElement || !this.webglCanvasElement) throw Error("Canvas or Video elements not found!");
 
         this._vrmFile = vrmFilePath;
+        this.inputSource = new VideoInputSource(this.videoElement);
 
         /**
          * Babylonjs
@@ -175,18 +355,24 @@ export class V3DWeb {
         Poses.then((v) => {
             if (!v) throw Error('Worker start failed!');
             this.workerPose = v;
+            if (this._faceCalibration) this.workerPose.setFaceCalibration(this._faceCalibration);
+            if (this._bodyCalibration) this.workerPose.setBodyCalibration(this._bodyCalibration);
+            this.workerPose.setJointLimits(this._jointLimits);
+            this.workerPose.setIdlePose(this._idlePose);
 
             createScene(
                 this.engine, this.workerPose,
-                this.boneState, this.boneOptions,
-                this.holistic, this.holisticState,
-                this._vrmFile, this.videoElement!
+                this.boneState, this.boneRotationDecoder, this.boneOptions,
+                this.holistic, this.holisticState, this.scheduler, this.idleLayer,
+                this._vrmFile, this.videoElement!,
+                this.inputSource
             ).then((value) => {
                 if (!value) throw Error("VRM Manager initialization failed!");
 
                 const [v3DCore, vrmManager] = value;
                 this._v3DCore = v3DCore;
                 this._vrmManager = vrmManager;
+                this.updateAvatarHipHeight();
 
                 // Camera
                 this.getVideoDevices().then((devices) => {
@@ -198,15 +384,7 @@ export class V3DWeb {
                             /**
                              * MediaPipe
                              */
-                            const mainOnResults = (results: Results) => onResults(
-                                results,
-                                vrmManager,
-                                this.videoCanvasElement,
-                                this.workerPose!,
-                                this.holisticState.activeEffect,
-                                this._updateBufferCallback,
-                                this.fpsControl
-                            );
+                            const mainOnResults = (results: Results) => this.handleResults(results);
                             this.holistic.initialize().then(() => {
                                 // Set initial options
                                 setHolisticOptions(this.holisticOptions, this.videoElement!,
@@ -228,7 +406,9 @@ export class V3DWeb {
         // Present a control panel through which the user can manipulate the solution
         // options.
         if (this.controlsElement) {
-            createControlPanel(this.holistic, this.videoElement, this.controlsElement,
+            createControlPanel({
+                    setOptions: (options) => this.holisticBackend.setOptions(options)
+                }, this.videoElement, this.controlsElement,
                 this.holisticState.activeEffect, this.fpsControl);
         }
     }
@@ -242,7 +422,7 @@ export class V3DWeb {
     }
 
     public async getCamera(idx: number) {
-        await navigator.mediaDevices.getUserMedia({
+        const stream = await navigator.mediaDevices.getUserMedia({
             video: {
                 width: 640,
                 height: 480,
@@ -250,19 +430,249 @@ export class V3DWeb {
                     exact: this.cameraList[idx].deviceId
                 }
             }
-        })
-            .then(stream => {
-                if (!this.videoElement) throw Error("Video Element not found!");
-                this.videoElement.srcObject = stream;
-                // let source = document.createElement('source');
-                //
-                // source.setAttribute('src', 'testfiles/dance5.webm');
-                // source.setAttribute('type', 'video/webm');
-                //
-                // this.videoElement.appendChild(source);
-                this.videoElement.play();
-            });
-            // .catch(e => console.error(e));
+        });
+        await this.inputSource.setSource(stream);
+        await this.inputSource.play();
+    }
+
+    /**
+     * Use a pre-recorded video or an arbitrary MediaStream as input.
+     * @param source File, Blob, URL or MediaStream
+     * @param loop Whether pre-recorded sources should loop
+     * @param frameRate Frame rate of source. Used for frame stepping.
+     */
+    public async setInputSource(source: InputSource, loop = false, frameRate = 30) {
+        this.holisticState.ready = false;
+        this.inputSource.frameRate = frameRate;
+        await this.inputSource.setSource(source, loop);
+        this.reset();
+        this.holisticState.ready = true;
+        if (this.holisticOptions.cameraOn) await this.inputSource.play();
+    }
+
+    public async playInput() {
+        await this.inputSource.play();
+    }
+
+    public pauseInput() {
+        this.inputSource.pause();
+    }
+
+    /**
+     * Seek pre-recorded input. Poses are reset since frames are no longer continuous.
+     * @param time Time in seconds
+     */
+    public async seekInput(time: number) {
+        await this.inputSource.seek(time);
+        this.reset();
+    }
+
+    /**
+     * Pause pre-recorded input and process the next frame(s) only.
+     * @param frames Number of frames to step
+     */
+    public async stepInput(frames = 1) {
+        await this.inputSource.step(frames);
+    }
+
+    /**
+     * Run Holistic in a dedicated worker, chained to pose worker.
+     * Falls back to main thread inference if the worker fails to start.
+     * @param enabled Whether to use worker inference
+     * @param assetPath Base URL of MediaPipe Holistic assets
+     * @return Whether worker inference is active
+     */
+    public async useWorkerInference(enabled = true, assetPath = new URL('./', location.href).href) {
+        if (!this.workerPose) throw Error("Pose worker not ready!");
+
+        this.holisticState.workerInference = false;
+        await this.holisticPipeline?.close();
+        this.holisticPipeline = null;
+        if (enabled) {
+            const pipeline = new HolisticWorkerPipeline(
+                this.videoElement!, this.inputSource, this.holisticState, this.scheduler,
+                (results) => this.handleResults(results as Results, true));
+            try {
+                await pipeline.start(this.workerPose, this.holisticOptions, assetPath);
+                this.holisticPipeline = pipeline;
+                this.holisticState.workerInference = true;
+            } catch (e) {
+                console.warn("Holistic worker failed to start, using main thread inference.", e);
+                await pipeline.close();
+            }
+        }
+        this.reset();
+        return this.holisticState.workerInference;
+    }
+
+    private handleResults(results: Results, processed = false, frameTime = this.holisticState.frameTime) {
+        if (!this._vrmManager || !this.workerPose) {
+            this.scheduler.cancel();
+            return;
+        }
+        // Worker pipeline reports its own timings
+        if (!processed) this.scheduler.holisticDone();
+
+        if (this.landmarkRecorder.recording) this.landmarkRecorder.addFrame(results);
+        onResults(
+            results,
+            this._vrmManager,
+            this.videoCanvasElement,
+            this.workerPose,
+            this.holisticState.activeEffect,
+            this._updateBufferCallback,
+            this.fpsControl,
+            this.rootMotion,
+            processed,
+            frameTime
+        ).then(() => {
+            if (!processed) this.scheduler.processDone();
+        }).catch(() => this.scheduler.cancel());
+    }
+
+    /**
+     * Start recording raw Holistic landmarks
+     */
+    public startLandmarkRecording() {
+        this.landmarkRecorder.start();
+    }
+
+    /**
+     * Stop recording landmarks
+     * @return Session file as Blob
+     */
+    public stopLandmarkRecording() {
+        return this.landmarkRecorder.stop();
+    }
+
+    /**
+     * Replay a landmark session through the pose worker. Holistic and camera are paused.
+     * @param session Session file from stopLandmarkRecording()
+     * @param loop Whether to loop the session
+     * @param speed Playback speed
+     * @return Player for playback control
+     */
+    public async replayLandmarkSession(session: Blob, loop = false, speed = 1) {
+        const frames = decodeLandmarkSession(await session.arrayBuffer());
+
+        await this.stopLandmarkReplay(false);
+        this.holisticState.ready = false;
+        this.inputSource.pause();
+        this.workerPose?.resetBoneRotations(true);
+
+        this.landmarkPlayer = new LandmarkSessionPlayer(
+            frames, (results, time) => this.handleResults(results as Results, false, time), loop, speed);
+        this.landmarkPlayer.play();
+        return this.landmarkPlayer;
+    }
+
+    /**
+     * Stop landmark replay
+     * @param resumeInput Whether to resume Holistic and camera input
+     * @return Rejects if the input video cannot resume, e.g. blocked by autoplay policy
+     */
+    public async stopLandmarkReplay(resumeInput = true) {
+        if (!this.landmarkPlayer) return;
+
+        this.landmarkPlayer.pause();
+        this.landmarkPlayer = null;
+        if (resumeInput) {
+            this.reset();
+            this.holisticState.ready = true;
+            if (this.holisticOptions.cameraOn) await this.inputSource.play();
+        }
+    }
+
+    /**
+     * Start recording bone rotations and root motion of current model
+     */
+    public startMotionRecording() {
+        if (!this._vrmManager) throw Error("VRM model not loaded!");
+        this.motionRecorder.start(this._vrmManager);
+    }
+
+    public stopMotionRecording() {
+        return this.motionRecorder.stop();
+    }
+
+    /**
+     * Export last recorded motion as BVH
+     * @param options BVH export options
+     */
+    public exportBVH(options: Partial<BVHExportOptions> = {}) {
+        const skeleton = this.motionRecorder.skeleton;
+        if (!skeleton) throw Error("No motion recorded!");
+
+        const frames = this.motionRecorder.resample(options.frameRate ?? 30);
+        return new Blob([exportBVH(skeleton, frames, options)], {type: 'text/plain'});
+    }
+
+    /**
+     * Export last recorded motion as a glTF binary animation clip.
+     * By default this is a VRM Animation (.vrma) file.
+     * @param options glTF export options
+     */
+    public exportAnimation(options: Partial<GLTFAnimationExportOptions> = {}) {
+        const skeleton = this.motionRecorder.skeleton;
+        if (!skeleton) throw Error("No motion recorded!");
+
+        const frames = this.motionRecorder.resample(options.frameRate ?? 30);
+        return new Blob([exportGLTFAnimation(skeleton, frames, options)], {type: 'model/gltf-binary'});
+    }
+
+    /**
+     * Drive mouth shapes from audio as well. Blended with visual mouth tracking by confidence.
+     * @param source Microphone stream, decoded audio or an audio file
+     * @param loop Whether file input should loop
+     */
+    public async startLipSync(source: LipSyncSource, loop = false) {
+        await this.lipSync.start(source, loop);
+    }
+
+    public stopLipSync() {
+        this.lipSync.stop();
+        this.boneState.lipSync = null;
+    }
+
+    /**
+     * Listen for hand gesture changes. Gestures are debounced in the worker, so each change fires once.
+     * @param listener Called with hand, new gesture (null when released) and previous gesture
+     */
+    public addGestureListener(listener: GestureListener) {
+        this.gestureListeners.add(listener);
+    }
+
+    public removeGestureListener(listener: GestureListener) {
+        this.gestureListeners.delete(listener);
+    }
+
+    private emitGestures(boneRotations: CloneableQuaternionMap) {
+        const gestures = unpackGestures(boneRotations);
+        if (!gestures) return;
+        for (const hand of ['left', 'right'] as const) {
+            const previous = this.gestures[hand];
+            if (gestures[hand] === previous) continue;
+            this.gestures[hand] = gestures[hand];
+            for (const listener of this.gestureListeners) {
+                listener({hand: hand, gesture: gestures[hand], previous: previous});
+            }
+        }
+    }
+
+    /**
+     * Start sending bone rotations and blend shapes as VMC protocol messages.
+     * Run `npm run vmc-bridge` to forward them to a VMC receiver over UDP.
+     * @param url WebSocket URL of the OSC bridge
+     */
+    public async connectVMC(url?: string) {
+        this.disconnectVMC();
+        this.vmcSender = new VMCSender(url);
+        await this.vmcSender.connect();
+    }
+
+    public disconnectVMC() {
+        this.vmcSender?.close();
+        this.vmcSender = null;
     }
 
     /**
@@ -270,10 +680,14 @@ export class V3DWeb {
      */
     public close() {
         this.holisticState.ready = false;
+        this.stopLandmarkReplay(false);
+        this.disconnectVMC();
+        this.stopLipSync();
+        this.holisticPipeline?.close();
         this.holistic.close().then(() => {
             this.worker.terminate();
             (this._updateBufferCallback as any) = null;
-            this.videoElement!.srcObject = null;
+            this.inputSource.dispose();
         });
         this._vrmManager?.dispose();
         this.engine.dispose();
@@ -284,7 +698,76 @@ export class V3DWeb {
      */
     public reset() {
         this.workerPose?.resetBoneRotations(true);
-        this.holistic.reset();
+        this.holisticBackend.reset();
+        this.scheduler.cancel();
+    }
+
+    /**
+     * Re-learn neutral brow position, e.g. for a different user.
+     */
+    public resetBrowNeutral() {
+        this.workerPose?.resetBrowNeutral();
+    }
+
+    /**
+     * Guided face calibration, replacing default blink and mouth baselines for the current user.
+     * Steps are: neutral face looking at camera, eyes closed, mouth wide open.
+     * @param onStep Called before each step, e.g. to show instructions. Capture starts when it resolves.
+     * @param duration Capture time per step in milliseconds
+     * @return The new profile, already in use
+     */
+    public async calibrateFace(
+        onStep: (step: FaceCalibrationStep) => Promise<void> | void = () => {},
+        duration = 1500
+    ) {
+        if (!this.workerPose) throw Error("Pose worker not ready!");
+        try {
+            for (const step of FACE_CALIBRATION_STEPS) {
+                await onStep(step);
+                await this.workerPose.startFaceCalibrationStep(step);
+                await new Promise((resolve) => setTimeout(resolve, duration));
+                if (await this.workerPose.stopFaceCalibrationStep() === 0)
+                    throw Error(`No face detected during calibration step "${step}"!`);
+            }
+            this._faceCalibration = await this.workerPose.finishFaceCalibration();
+        } catch (e) {
+            await this.workerPose.cancelFaceCalibration();
+            throw e;
+        }
+        return this._faceCalibration;
+    }
+
+    /**
+     * Capture the user's proportions and rest pose while holding a T-pose or A-pose.
+     * Corrects limb rest directions, and scales root translation to the avatar.
+     * @param pose Pose the user will hold, with full body visible
+     * @param onReady Called before capture, e.g. to show instructions. Capture starts when it resolves.
+     * @param duration Capture time in milliseconds
+     * @return The new profile, already in use
+     */
+    public async calibrateBody(
+        pose: BodyCalibrationPose = 'T',
+        onReady: () => Promise<void> | void = () => {},
+        duration = 2000
+    ) {
+        if (!this.workerPose) throw Error("Pose worker not ready!");
+        await onReady();
+        await this.workerPose.startBodyCalibration(pose);
+        await new Promise((resolve) => setTimeout(resolve, duration));
+        try {
+            this._bodyCalibration = await this.workerPose.finishBodyCalibration();
+        } catch (e) {
+            await this.workerPose.cancelBodyCalibration();
+            throw e;
+        }
+        return this._bodyCalibration;
+    }
+
+    private updateAvatarHipHeight() {
+        if (!this._vrmManager || !this.workerPose) return;
+        this.workerPose.setAvatarHipHeight(
+            this._vrmManager.humanoidBone.hips.getAbsolutePosition().y -
+            this._vrmManager.rootMesh.getAbsolutePosition().y);
     }
 
     public switchSource(idx: number) {
@@ -293,12 +776,15 @@ export class V3DWeb {
         this.holisticState.ready = false;
         this.getCamera(idx).then(() => {
             this.reset();
+            this.resetBrowNeutral();
             this.holisticState.ready = true;
         });
     }
 
     private async switchModel() {
         if (!this.v3DCore || !this.workerPose) return;
+        // Recorded skeleton no longer matches
+        this.motionRecorder.stop();
         this.v3DCore.updateAfterRenderFunction(() => {});
         this.vrmManager?.dispose();
         this._vrmManager = null;
@@ -314,15 +800,20 @@ export class V3DWeb {
         mainCamera.setPosition(new Vector3(0, 1.05, 4.5));
         mainCamera.setTarget(
             this._vrmManager.rootMesh.getWorldMatrix().getTranslation().subtractFromFloats(0, -1.25, 0));
-        await this.workerPose.setBonesHierarchyTree(this._vrmManager.transformNodeTree, true);
+        this.boneRotationDecoder.setLayout(
+            await this.workerPose.setBonesHierarchyTree(this._vrmManager.transformNodeTree, true));
         this.workerPose.resetBoneRotations();
+        this.updateAvatarHipHeight();
         this.v3DCore.updateAfterRenderFunction(
             () => {
                 if (this.boneState.bonesNeedUpdate) {
                     updatePose(this._vrmManager!, this.boneState, this.boneOptions);
+                    this.idleLayer.capture(this._vrmManager!, this.boneState.boneRotations!);
                     updateSpringBones(this._vrmManager!);
                     this.boneState.bonesNeedUpdate = false;
                 }
+                this.idleLayer.apply(this._vrmManager!, performance.now() / 1000,
+                    blinkLabels(this._vrmManager!, this.boneOptions));
             }
         );
         this._vrmManager.rootMesh.rotationQuaternion = Quaternion.RotationYawPitchRoll(0, 0, 0);
@@ -0,0 +1,119 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as Comlink from "comlink"
+import {Holistic, InputImage, Options, Results} from "@mediapipe/holistic";
+import {Nullable} from "@babylonjs/core";
+import {CloneableResults} from "../helper/landmark";
+import {Poses} from "./pose-processing";
+
+export interface HolisticProcessorOutput {
+    results: CloneableResults;
+    // Milliseconds
+    holisticLatency: number;
+    processLatency: number;
+}
+
+/**
+ * Runs Holistic off the main thread.
+ * Results are forwarded straight to pose worker, main thread only receives landmarks for drawing.
+ */
+export class HolisticProcessor {
+    private holistic: Nullable<Holistic> = null;
+    private poses: Nullable<Comlink.Remote<Poses>> = null;
+    private lastResults: Nullable<CloneableResults> = null;
+
+    /**
+     * @param assetPath Base URL of MediaPipe Holistic assets (wasm, tflite, etc.)
+     */
+    constructor(
+        private readonly assetPath: string
+    ) {}
+
+    public async initialize(options: Options) {
+        this.holistic = new Holistic({
+            locateFile: (file) => `${this.assetPath}${file}`
+        });
+        this.holistic.onResults((results: Results) => {
+            this.lastResults = (({segmentationMask, image, ...o}) => o)(results);
+        });
+        await this.holistic.initialize();
+        this.holistic.setOptions(options);
+    }
+
+    /**
+     * Connect to pose worker. Port must be exposed by Poses.connectPort.
+     * @param port Message port to pose worker
+     */
+    public connectPoses(port: MessagePort) {
+        this.poses = Comlink.wrap<Poses>(port);
+    }
+
+    public setOptions(options: Options) {
+        this.holistic?.setOptions(options);
+    }
+
+    public reset() {
+        this.holistic?.reset();
+    }
+
+    /**
+     * Run inference on one frame and process results in pose worker.
+     * Frame is closed afterwards.
+     * @param frame Captured video frame
+     * @param time Media time of the frame in seconds
+     * @return Holistic results without image data, and time spent in each stage
+     */
+    public async process(frame: ImageBitmap, time?: number): Promise<Nullable<HolisticProcessorOutput>> {
+        if (!this.holistic) {
+            frame.close();
+            return null;
+        }
+
+        this.lastResults = null;
+        const startTime = performance.now();
+        try {
+            // Holistic uploads input with texImage2D, which accepts bitmaps as well
+            await this.holistic.send({image: frame as unknown as InputImage});
+        } finally {
+            frame.close();
+        }
+
+        const holisticDoneTime = performance.now();
+        const results = this.lastResults;
+        if (!results) return null;
+
+        if (this.poses) await this.poses.process(results, time);
+        return {
+            results: results,
+            holisticLatency: holisticDoneTime - startTime,
+            processLatency: performance.now() - holisticDoneTime,
+        };
+    }
+
+    public async close() {
+        await this.holistic?.close();
+        this.holistic = null;
+    }
+}
+
+export const holisticWrapper = {
+    processor: HolisticProcessor
+};
+
+Comlink.expose(holisticWrapper);
+
+export default HolisticProcessor;
@@ -0,0 +1,80 @@
+/*
+Copyright (C) 2022  The v3d Authors.
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as published by
+    the Free Software Foundation, version 3.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {LipSyncEstimator, LipSyncOptions} from "../helper/lip-sync-estimator";
+
+// AudioWorkletGlobalScope is not part of TypeScript libs
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+}
+
+export interface LipSyncProcessorOptions {
+    frameRate: number;
+    windowSize: number;
+    estimator: Partial<LipSyncOptions>;
+}
+
+/**
+ * Buffers mono input and posts a LipSyncFrame to main thread at frameRate.
+ * Audio passes through unchanged.
+ */
+class LipSyncProcessor extends AudioWorkletProcessor {
+    private readonly estimator: LipSyncEstimator;
+    private readonly window: Float32Array;
+    private readonly hop: number;
+    private writeIndex = 0;
+    private sinceLastFrame = 0;
+
+    constructor(options?: AudioWorkletNodeOptions) {
+        super();
+        const opts: Partial<LipSyncProcessorOptions> = options?.processorOptions ?? {};
+        this.estimator = new LipSyncEstimator(sampleRate, opts.estimator);
+        this.window = new Float32Array(opts.windowSize ?? 1024);
+        this.hop = sampleRate / (opts.frameRate ?? 60);
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+        const input = inputs[0];
+        if (!input || input.length === 0) return true;
+
+        // Pass through
+        outputs[0]?.forEach((channel, i) => channel.set(input[Math.min(i, input.length - 1)]));
+
+        const blockLength = input[0].length;
+        for (let i = 0; i < blockLength; ++i) {
+            let s = 0;
+            for (const channel of input) s += channel[i];
+            // Window is a ring buffer
+            this.window[this.writeIndex] = s / input.length;
+            this.writeIndex = (this.writeIndex + 1) % this.window.length;
+        }
+
+        this.sinceLastFrame += blockLength;
+        if (this.sinceLastFrame >= this.hop) {
+            this.sinceLastFrame -= this.hop;
+            const ordered = new Float32Array(this.window.length);
+            ordered.set(this.window.subarray(this.writeIndex));
+            ordered.set(this.window.subarray(0, this.writeIndex), this.window.length - this.writeIndex);
+            this.port.postMessage(this.estimator.process(ordered));
+        }
+        return true;
+    }
+}
+
+registerProcessor('lip-sync-processor', LipSyncProcessor);
@@ -36,7 +36,7 @@ import {
     initArray,
     KeysMatching, LR, pointLineDistance,
     projectVectorOnPlane,
-    ReadonlyKeys, remapRange, remapRangeNoCap,
+    rangeCap, ReadonlyKeys, remapRange, remapRangeNoCap,
     remapRangeWithCap,
 } from "../helper/utils";
 import {TransformNodeTreeNode} from "v3d-core/dist/src/importer/babylon-vrm-loader/src";
@@ -61,13 +61,52 @@ import {
     CloneableQuaternion,
     CloneableQuaternionMap,
     cloneableQuaternionToQuaternion,
+    decomposeSwingTwist,
     degreeBetweenVectors, FilteredQuaternion,
     removeRotationAxisWithCap,
-    reverseRotation, scaleRotation,
+    reverseRotation,
     sphericalToQuaternion
 } from "../helper/quaternion";
 import {Basis, calcAvgPlane, getBasis, quaternionBetweenBases} from "../helper/basis";
-import {VISIBILITY_THRESHOLD} from "../helper/filter";
+import {
+    FILTER_GROUPS,
+    FilterConfig,
+    FilterGroup,
+    resolveFilterConfig,
+    VISIBILITY_THRESHOLD
+} from "../helper/filter";
+import {BoneRotationEncoder, BoneRotationLayout, createBoneRotationRing} from "../helper/transport";
+import {initBlendshapeBones, packBlendshapes, solveBlendshapes} from "../helper/blendshape";
+import {
+    A_POSE_ARM_ANGLE,
+    BodyCalibrationPose,
+    BodyCalibrationProfile,
+    BodyCalibrator,
+    BodyMeasurement,
+    FaceCalibrationProfile,
+    FaceCalibrationStep,
+    FaceCalibrator,
+    FaceMeasurement
+} from "../helper/calibration";
+import {FootContact, solveTwoBoneIK} from "../helper/ik";
+import {EmotionClassifier, initEmotionBones, packEmotions, scoreEmotions} from "../helper/emotion";
+import {
+    calcHandFeatures,
+    classifyGesture,
+    Gesture,
+    GestureDebouncer,
+    initGestureBones,
+    packGestures
+} from "../helper/gesture";
+import {initTrackingBones, packTracking} from "../helper/idle";
+import {IdlePose, LIMB_GROUPS, LimbFader, limbGroupBones} from "../helper/limb-fade";
+import {
+    applyHingeLimit,
+    applyJointLimits,
+    JointLimitOverrides,
+    JointLimitTable,
+    mergeJointLimits
+} from "../helper/joint-limits";
 import {BoneOptions} from "../v3d-web";
 import {HumanoidBone} from "v3d-core/dist/src/importer/babylon-vrm-loader/src/humanoid-bone";
 
@@ -105,6 +144,13 @@ export class PoseKeyPoints {
     public mouth_bottom_third = new FilteredLandmarkVector();
     public mouth_left = new FilteredLandmarkVector();
     public mouth_right = new FilteredLandmarkVector();
+    public left_brow_inner = new FilteredLandmarkVector();
+    public left_brow_middle = new FilteredLandmarkVector();
+    public left_brow_outer = new FilteredLandmarkVector();
+    public right_brow_inner = new FilteredLandmarkVector();
+    public right_brow_middle = new FilteredLandmarkVector();
+    public right_brow_outer = new FilteredLandmarkVector();
+    public nose_bridge = new FilteredLandmarkVector();
 }
 
 export type PosesKey = keyof Omit<Poses, KeysMatching<Poses, Function> | ReadonlyKeys<Poses>>;
@@ -136,15 +182,44 @@ export class Poses {
 
     private static readonly EYE_WIDTH_BASELINE = 0.0546;
     private static readonly MOUTH_WIDTH_BASELINE = 0.095;
+    // Mouth width / face width
+    private static readonly MOUTH_FACE_RATIO_NARROW = 0.33;
+    private static readonly MOUTH_FACE_RATIO_NEUTRAL = 0.4;
+    private static readonly MOUTH_FACE_RATIO_WIDE = 0.47;
     private static readonly LR_FACE_DIRECTION_RANGE = 27;
+    // Face angles (degrees) over which mouth tracking confidence drops to 0
+    private static readonly MOUTH_CONFIDENT_ANGLE = 20;
+    private static readonly MOUTH_UNRELIABLE_ANGLE = 45;
+    // Brow offsets from neutral (eye width units) mapped to full weight
+    private static readonly BROW_RAISE_RANGE = 0.25;
+    private static readonly BROW_LOWER_RANGE = 0.12;
+    private static readonly BROW_FURROW_RANGE = 0.1;
+    // Per frame adaption rate of brow neutral
+    private static readonly BROW_NEUTRAL_ADAPTION = 0.01;
+    // Share of torso rotation per bone, renormalized over bones the model has
+    private static readonly SPINE_WEIGHTS: { [bone: string]: number } = {
+        spine: 0.4, chest: 0.35, upperChest: 0.25,
+    };
+    // Clavicle angle (radians) per shoulder width unit of shrug, and limits
+    private static readonly SHOULDER_SHRUG_SCALE = 3.5;
+    private static readonly SHOULDER_MAX_RAISE = 0.5236;
+    private static readonly SHOULDER_MAX_DROP = 0.1745;
+    private static readonly SHOULDER_NEUTRAL_ADAPTION = 0.005;
+    // Per frame adaption rate of ground height to planted feet
+    private static readonly GROUND_ADAPTION = 0.05;
+    // Seconds between frames over which foot contacts restart, e.g. after seeking
+    private static readonly FOOT_CONTACT_MAX_GAP = 0.5;
 
     // General
     private _boneOptions: BoneOptions;
     // Workaround for Promise problem
     public updateBoneOptions(value: BoneOptions) {
         this._boneOptions = value;
+        this.updateFilterConfig(value.filters);
     }
-    private readonly _boneRotationUpdateFn: Nullable<((data: Uint8Array) => void) & Comlink.ProxyMarked> = null;
+    // Params of landmark filters below, changed through boneOptions.filters
+    private _filterConfig: FilterConfig = resolveFilterConfig("balanced");
+    private readonly _boneRotationUpdateFn: Nullable<((data: Nullable<Float32Array>) => void) & Comlink.ProxyMarked> = null;
 
     // VRMManager
     private bonesHierarchyTree: Nullable<TransformNodeTreeNode> = null;
@@ -157,19 +232,10 @@ export class Poses {
         POSE_LANDMARK_LENGTH, () => {
             return {x: 0, y: 0, z: 0};
         });
-    private poseLandmarks: FilteredLandmarkVectorList = initArray<FilteredLandmarkVector>(
-        POSE_LANDMARK_LENGTH, () => {
-            return new FilteredLandmarkVector({
-                R: 0.1, Q: 5, type: 'Kalman',
-            });
-        });
-    private worldPoseLandmarks: FilteredLandmarkVectorList = initArray<FilteredLandmarkVector>(
-        POSE_LANDMARK_LENGTH, () => {
-            return new FilteredLandmarkVector({
-                // R: 0.1, Q: 0.1, type: 'Kalman',
-                R: 0.1, Q: 1, type: 'Kalman',
-            });  // 0.01, 0.6, 0.007
-        });
+    private poseLandmarks: FilteredLandmarkVectorList =
+        this.createFilteredLandmarks(POSE_LANDMARK_LENGTH, "pose");
+    private worldPoseLandmarks: FilteredLandmarkVectorList =
+        this.createFilteredLandmarks(POSE_LANDMARK_LENGTH, "worldPose");
     // Cannot use Vector3 directly since postMessage() erases all methods
     public cloneablePoseLandmarks: NormalizedLandmarkList = initArray<NormalizedLandmark>(
         POSE_LANDMARK_LENGTH, () => {
@@ -181,13 +247,8 @@ export class Poses {
         FACE_LANDMARK_LENGTH, () => {
             return {x: 0, y: 0, z: 0};
         });
-    private faceLandmarks: FilteredLandmarkVectorList = initArray<FilteredLandmarkVector>(
-        FACE_LANDMARK_LENGTH, () => {
-            return new FilteredLandmarkVector({
-                // oneEuroCutoff: 0.01, oneEuroBeta: 15, type: 'OneEuro',
-                R: 0.1, Q: 1, type: 'Kalman'
-            });     // 0.01, 15, 0.002
-        });
+    private faceLandmarks: FilteredLandmarkVectorList =
+        this.createFilteredLandmarks(FACE_LANDMARK_LENGTH, "face");
     private _faceMeshLandmarkIndexList: number[][] = [];
     get faceMeshLandmarkIndexList(): number[][] {
         return this._faceMeshLandmarkIndexList;
@@ -200,20 +261,13 @@ export class Poses {
 
     // Left Hand Landmarks
     private leftWristOffset: FilteredLandmarkVector =
-        new FilteredLandmarkVector({
-            R: 0.1, Q: 2, type: 'Kalman',
-        });    // 0.01, 2, 0.008
+        new FilteredLandmarkVector(this._filterConfig.wrist);
     public inputLeftHandLandmarks: NormalizedLandmarkList = initArray<NormalizedLandmark>(
         HAND_LANDMARK_LENGTH, () => {
             return {x: 0, y: 0, z: 0};
         });
-    private leftHandLandmarks: FilteredLandmarkVectorList = initArray<FilteredLandmarkVector>(
-        HAND_LANDMARK_LENGTH, () => {
-            return new FilteredLandmarkVector({
-                R: 1, Q: 10, type: 'Kalman',
-            });    // 0.001, 0.6
-
-        });
+    private leftHandLandmarks: FilteredLandmarkVectorList =
+        this.createFilteredLandmarks(HAND_LANDMARK_LENGTH, "hand");
     public cloneableLeftHandLandmarks: NormalizedLandmarkList = initArray<NormalizedLandmark>(
         HAND_LANDMARK_LENGTH, () => {
             return {x: 0, y: 0, z: 0};
@@ -222,19 +276,13 @@ export class Poses {
 
     // Right Hand Landmarks
     private rightWristOffset: FilteredLandmarkVector =
-        new FilteredLandmarkVector({
-            R: 0.1, Q: 2, type: 'Kalman',
-        });    // 0.01, 2, 0.008
+        new FilteredLandmarkVector(this._filterConfig.wrist);
     public inputRightHandLandmarks: NormalizedLandmarkList = initArray<NormalizedLandmark>(
         HAND_LANDMARK_LENGTH, () => {
             return {x: 0, y: 0, z: 0};
         });
-    private rightHandLandmarks: FilteredLandmarkVectorList = initArray<FilteredLandmarkVector>(
-        HAND_LANDMARK_LENGTH, () => {
-            return new FilteredLandmarkVector({
-                R: 1, Q: 10, type: 'Kalman',
-            });    // 0.001, 0.6
-        });
+    private rightHandLandmarks: FilteredLandmarkVectorList =
+        this.createFilteredLandmarks(HAND_LANDMARK_LENGTH, "hand");
     public cloneableRightHandLandmarks: NormalizedLandmarkList = initArray<NormalizedLandmark>(
         HAND_LANDMARK_LENGTH, () => {
             return {x: 0, y: 0, z: 0};
@@ -255,17 +303,33 @@ export class Poses {
     private _blinkBase: FilteredLandmarkVector = new FilteredLandmarkVector({
         R: 1, Q: 1, type: 'Kalman',
     });
+    private readonly _emotionClassifier = new EmotionClassifier();
+    // (A, I, U) and (E, O, -)
+    private _visemeAIU: FilteredLandmarkVector = new FilteredLandmarkVector({
+        R: 1, Q: 5, type: 'Kalman',
+    });
+    private _visemeEO: FilteredLandmarkVector = new FilteredLandmarkVector({
+        R: 1, Q: 5, type: 'Kalman',
+    });
+    // Neutral brow measurements (inner height, outer height, inner to nose bridge), adapted over time
+    private _browNeutral: { [side: string]: Nullable<Vector3> } = {left: null, right: null};
+    // Ear to shoulder height / shoulder width at rest, adapted over time
+    private _shoulderNeutral: { [side: string]: Nullable<number> } = {left: null, right: null};
     private _leftBlinkArr: fixedLengthQueue<number> = new fixedLengthQueue<number>(10);
     private _rightBlinkArr: fixedLengthQueue<number> = new fixedLengthQueue<number>(10);
+    // Per-user baselines replacing BLINK_RATIO_*, MOUTH_MP_RANGE_* and iris center
+    private _faceCalibration: Nullable<FaceCalibrationProfile> = null;
+    private _faceCalibrator: Nullable<FaceCalibrator> = null;
+    private _faceMeasurement: FaceMeasurement = {
+        leftEye: 0, rightEye: 0, mouth: 0, leftIris: [0, 0], rightIris: [0, 0],
+    };
 
     // Calculated properties
     private _faceNormal: NormalizedLandmark = {x: 0, y: 0, z: 0};
     get faceNormal(): NormalizedLandmark {
         return this._faceNormal;
     }
-    private _headQuaternion: FilteredQuaternion = new FilteredQuaternion({
-        R: 1, Q: 50, type: 'Kalman',
-    });
+    private _headQuaternion: FilteredQuaternion = new FilteredQuaternion(this._filterConfig.head);
 
     // TODO: option: lock x rotation
 
@@ -273,7 +337,7 @@ export class Poses {
     private _initBoneRotations: CloneableQuaternionMap = {};
     // Calculated bone rotations
     private _boneRotations: CloneableQuaternionMap = {};
-    private textEncoder = new TextEncoder();
+    private boneRotationEncoder: BoneRotationEncoder;
 
     private _leftHandNormals: NormalizedLandmarkList = initArray<NormalizedLandmark>(
         3, () => {
@@ -302,26 +366,98 @@ export class Poses {
 
     public midHipPos: Nullable<NormalizedLandmark> = null;
     public midHipInitOffset: Nullable<NormalizedLandmark> = null;
-    public midHipOffset = new FilteredLandmarkVector({
-        R: 1, Q: 10, type: 'Kalman',
-    });
+    // Rotation from world to hips local frame, yaw only
+    private _hipFrame = Quaternion.Identity();
+    private _bodyCalibration: Nullable<BodyCalibrationProfile> = null;
+    private _bodyCalibrator: Nullable<BodyCalibrator> = null;
+    // Hips height of avatar in meters, for root translation scaling
+    private _avatarHipHeight = 0;
+    private _rootScale = 1;
+    // Leg IK
+    private readonly _footContacts: { [side: string]: FootContact } = {
+        left: new FootContact(), right: new FootContact(),
+    };
+    private _groundHeight: Nullable<number> = null;
+    // Timestamp of current frame in seconds
+    private _frameTime: Nullable<number> = null;
+    private _jointLimits: JointLimitTable = mergeJointLimits();
+    private readonly _limbFaders: { [group: string]: LimbFader } = {};
+    private _idlePose: IdlePose = {};
+    private readonly _gestureDebouncers: { [side: string]: GestureDebouncer } = {
+        left: new GestureDebouncer(), right: new GestureDebouncer(),
+    };
+    public midHipOffset = new FilteredLandmarkVector(this._filterConfig.hipOffset);
 
     constructor(
         boneOptions: BoneOptions,
-        boneRotationUpdateFn?: ((data: Uint8Array) => void) & Comlink.ProxyMarked
+        boneRotationUpdateFn?: ((data: Nullable<Float32Array>) => void) & Comlink.ProxyMarked
     ) {
         this.initBoneRotations();    //provisional
+        this.boneRotationEncoder = new BoneRotationEncoder({
+            keys: Object.keys(this._boneRotations), sharedBuffer: null,
+        });
         this._boneOptions = boneOptions;
+        this.updateFilterConfig(boneOptions.filters);
         if (boneRotationUpdateFn) this._boneRotationUpdateFn = boneRotationUpdateFn;
     }
 
+    private createFilteredLandmarks(length: number, group: FilterGroup) {
+        return initArray<FilteredLandmarkVector>(length, () => new FilteredLandmarkVector(this._filterConfig[group]));
+    }
+
+    /**
+     * Replace filters whose params changed. Replaced filters start over, so only do this on change.
+     */
+    private updateFilterConfig(filters: BoneOptions['filters']) {
+        const config = resolveFilterConfig(filters);
+        const changed = FILTER_GROUPS.filter((g) =>
+            JSON.stringify(config[g]) !== JSON.stringify(this._filterConfig[g]));
+        this._filterConfig = config;
+        for (const g of changed) {
+            switch (g) {
+                case "pose":
+                    this.poseLandmarks = this.createFilteredLandmarks(POSE_LANDMARK_LENGTH, g);
+                    break;
+                case "worldPose":
+                    this.worldPoseLandmarks = this.createFilteredLandmarks(POSE_LANDMARK_LENGTH, g);
+                    break;
+                case "face":
+                    this.faceLandmarks = this.createFilteredLandmarks(FACE_LANDMARK_LENGTH, g);
+                    break;
+                case "hand":
+                    this.leftHandLandmarks = this.createFilteredLandmarks(HAND_LANDMARK_LENGTH, g);
+                    this.rightHandLandmarks = this.createFilteredLandmarks(HAND_LANDMARK_LENGTH, g);
+                    break;
+                case "wrist":
+                    this.leftWristOffset = new FilteredLandmarkVector(config.wrist);
+                    this.rightWristOffset = new FilteredLandmarkVector(config.wrist);
+                    break;
+                case "head":
+                    this._headQuaternion = new FilteredQuaternion(config.head);
+                    break;
+                case "hipOffset":
+                    this.midHipOffset = new FilteredLandmarkVector(config.hipOffset);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Expose this instance on another port, so that holistic worker can send results directly.
+     * @param port Message port from main thread
+     */
+    public connectPort(port: MessagePort) {
+        Comlink.expose(this, port);
+    }
+
     /**
      * One time operation to set bones hierarchy from VRMManager
      * @param tree root node of tree
+     * @return Layout of bone rotation buffers pushed to main thread
      */
-    public setBonesHierarchyTree(tree: TransformNodeTreeNode, forceReplace = false) {
+    public setBonesHierarchyTree(tree: TransformNodeTreeNode, forceReplace = false): BoneRotationLayout {
         // Assume bones have unique names
-        if (this.bonesHierarchyTree && !forceReplace) return;
+        if (this.bonesHierarchyTree && !forceReplace) return this.boneRotationEncoder.layout;
 
         this.bonesHierarchyTree = tree;
 
@@ -333,6 +469,13 @@ export class Poses {
             return false;
         });
         this.initBoneRotations();
+
+        const keys = Object.keys(this._boneRotations);
+        this.boneRotationEncoder = new BoneRotationEncoder({
+            keys: keys,
+            sharedBuffer: self.crossOriginIsolated ? createBoneRotationRing(keys.length) : null,
+        });
+        return this.boneRotationEncoder.layout;
     }
 
     /**
@@ -341,13 +484,22 @@ export class Poses {
      *  - Face towards -Z (towards camera) by default
      *  TODO: interpolate results to 60 FPS.
      * @param results Result object from MediaPipe Holistic
+     * @param time Timestamp of the frame in seconds, e.g. media time of video. Defaults to now.
      */
     public process(
-        results: CloneableResults
+        results: CloneableResults,
+        time = performance.now() / 1000
     ) {
         this.cloneableInputResults = results;
         if (!this.cloneableInputResults) return;
 
+        // Frames are not continuous, e.g. input was seeked or looped
+        if (this._frameTime !== null &&
+            (time < this._frameTime || time - this._frameTime > Poses.FOOT_CONTACT_MAX_GAP)) {
+            for (const c of Object.values(this._footContacts)) c.reset();
+        }
+        this._frameTime = time;
+
         if (this._boneOptions.resetInvisible) {
             this.resetBoneRotations();
         }
@@ -369,18 +521,22 @@ export class Poses {
         this.calcIrisNormal();
 
         // Bone Orientations Dependent
-        // Calculate face orientation
+        // Calculate full body bones
+        this.calcPoseBones();
+
+        // Calculate face orientation, relative to torso
         this.calcFaceBones();
 
         // Calculate expressions
         this.calcExpressions();
-
-        // Calculate full body bones
-        this.calcPoseBones();
+        packTracking(!!this.cloneableInputResults.faceLandmarks, this._boneRotations);
 
         // Calculate hand bones
         this.calcHandBones();
 
+        // Classify hand gestures from finger rotations before any locking
+        this.calcGestures();
+
         // Post processing
         if (this._boneOptions.irisLockX) {
             this._boneRotations['iris'].set(removeRotationAxisWithCap(
@@ -394,23 +550,10 @@ export class Poses {
                 AXIS.x));
         }
 
+        // Fade lost limbs to idle pose and back
+        if (this._boneOptions.resetInvisible) this.fadeLimbs();
+
         const lockBones: string[] = [];
-        // Holistic doesn't reset hand landmarks when invisible
-        // So we infer invisibility from wrist landmark
-        if (this._boneOptions.resetInvisible) {
-            if ((this.cloneableInputResults?.poseLandmarks[POSE_LANDMARKS.LEFT_WRIST].visibility || 0) < VISIBILITY_THRESHOLD) {
-                for (const k of Object.keys(HAND_LANDMARKS_BONE_MAPPING)) {
-                    const key = `left${k}`;
-                    lockBones.push(key);
-                }
-            }
-            if ((this.cloneableInputResults?.poseLandmarks[POSE_LANDMARKS.RIGHT_WRIST].visibility || 0) < VISIBILITY_THRESHOLD) {
-                for (const k of Object.keys(HAND_LANDMARKS_BONE_MAPPING)) {
-                    const key = `right${k}`;
-                    lockBones.push(key);
-                }
-            }
-        }
         if (this._boneOptions.lockFinger) {
             for (const d of LR) {
                 for (const k of Object.keys(HAND_LANDMARKS_BONE_MAPPING)) {
@@ -421,6 +564,7 @@ export class Poses {
         }
         if (this._boneOptions.lockArm) {
             for (const k of LR) {
+                lockBones.push(`${k}Shoulder`);
                 lockBones.push(`${k}UpperArm`);
                 lockBones.push(`${k}LowerArm`);
             }
@@ -433,6 +577,7 @@ export class Poses {
             }
         }
         this.filterBoneRotations(lockBones);
+        if (this._boneOptions.jointLimits) applyJointLimits(this._boneRotations, this._jointLimits);
 
         // Push to main
         this.pushBoneRotationBuffer();
@@ -443,6 +588,13 @@ export class Poses {
             this._boneRotations[k].set(cloneableQuaternionToQuaternion(v));
         }
         if (sendResult) {
+            // Explicit reset, not per frame resetInvisible
+            this._emotionClassifier.reset();
+            for (const c of Object.values(this._footContacts)) c.reset();
+            for (const d of Object.values(this._gestureDebouncers)) d.reset();
+            for (const f of Object.values(this._limbFaders)) f.reset();
+            this._groundHeight = null;
+            this._frameTime = null;
             this.pushBoneRotationBuffer();
         }
     }
@@ -493,6 +645,16 @@ export class Poses {
         this._keyPoints.right_eye_bottom = this.faceLandmarks[this.faceMeshLandmarkIndexList[3][4]];
         this._keyPoints.right_eye_outer_secondary = this.faceLandmarks[this.faceMeshLandmarkIndexList[3][10]];
         this._keyPoints.right_eye_inner_secondary = this.faceLandmarks[this.faceMeshLandmarkIndexList[3][14]];
+
+        // Upper edge of eyebrows
+        this._keyPoints.left_brow_inner = this.faceLandmarks[this.faceMeshLandmarkIndexList[0][9]];
+        this._keyPoints.left_brow_middle = this.faceLandmarks[this.faceMeshLandmarkIndexList[0][7]];
+        this._keyPoints.left_brow_outer = this.faceLandmarks[this.faceMeshLandmarkIndexList[0][5]];
+        this._keyPoints.right_brow_inner = this.faceLandmarks[this.faceMeshLandmarkIndexList[1][9]];
+        this._keyPoints.right_brow_middle = this.faceLandmarks[this.faceMeshLandmarkIndexList[1][7]];
+        this._keyPoints.right_brow_outer = this.faceLandmarks[this.faceMeshLandmarkIndexList[1][5]];
+        // Not part of any drawn connection
+        this._keyPoints.nose_bridge = this.faceLandmarks[168];
     }
 
     /*
@@ -507,16 +669,21 @@ export class Poses {
             axisX, axisY, Vector3.Cross(axisX, axisY)
         ]);
 
-        // Distribute rotation between neck and head
-        const headParentQuaternion = this.applyQuaternionChain('head', false);
+        // Solve relative to torso, i.e. parent of neck, so turning the torso does not turn the head twice.
+        // Torso follows the shoulder line of pose landmarks, solved before this.
+        const neckParentQuaternion = this.applyQuaternionChain('neck', false);
         const headBasis = this._boneRotations['head'].rotateBasis(
-            headParentQuaternion);
+            neckParentQuaternion);
         const quaternion = reverseRotation(quaternionBetweenBases(
-            thisBasis, headBasis, headParentQuaternion), AXIS.x);
+            thisBasis, headBasis, neckParentQuaternion), AXIS.x);
         this._headQuaternion.updateRotation(quaternion);
-        const scaledQuaternion = scaleRotation(this._headQuaternion.rot, 0.5);
-        this._boneRotations['head'].set(scaledQuaternion);
-        this._boneRotations['neck'].set(scaledQuaternion);
+
+        // Distribute rotation between neck and head
+        const neckRatio = rangeCap(this._boneOptions.neckRatio, 0, 1);
+        this._boneRotations['neck'].set(Quaternion.Slerp(
+            Quaternion.Identity(), this._headQuaternion.rot, neckRatio));
+        this._boneRotations['head'].set(Quaternion.Slerp(
+            Quaternion.Identity(), this._headQuaternion.rot, 1 - neckRatio));
     }
 
     /*
@@ -559,6 +726,14 @@ export class Poses {
         const rightIrisOffset = rightIrisCenter
             .subtract(rightEyeCenter)
             .scale(Poses.EYE_WIDTH_BASELINE / rightEyeWidth);
+        this._faceMeasurement.leftIris = [leftIrisOffset.x, leftIrisOffset.y];
+        this._faceMeasurement.rightIris = [rightIrisOffset.x, rightIrisOffset.y];
+        if (this._faceCalibration) {
+            leftIrisOffset.x -= this._faceCalibration.leftIrisCenter[0];
+            leftIrisOffset.y -= this._faceCalibration.leftIrisCenter[1];
+            rightIrisOffset.x -= this._faceCalibration.rightIrisCenter[0];
+            rightIrisOffset.y -= this._faceCalibration.rightIrisCenter[1];
+        }
 
         // Remap offsets to quaternions
         const leftIrisRotationYPR = Quaternion.RotationYawPitchRoll(
@@ -583,7 +758,11 @@ export class Poses {
     }
 
     private calcExpressions() {
-        if (!this.cloneableInputResults?.faceLandmarks) return;
+        if (!this.cloneableInputResults?.faceLandmarks) {
+            // Keep last mouth shape, but let other sources (e.g. audio) take over
+            this._boneRotations['mouth'].y = 0;
+            return;
+        }
 
         const leftTopToMiddle = pointLineDistance(this._keyPoints.left_eye_top.pos,
             this._keyPoints.left_eye_inner.pos, this._keyPoints.left_eye_outer.pos);
@@ -598,30 +777,40 @@ export class Poses {
             Math.log(leftTopToMiddle / leftTopToBottom + 1),
             Math.log(rightTopToMiddle / rightTopToBottom + 1),
             0));
-        let leftRangeOffset = 0;
-        if (this._leftBlinkArr.length() > 4) {
-            leftRangeOffset = this._leftBlinkArr.values.reduce(
-                (p, c, i) => p + (c - p) / (i + 1), 0) - Poses.BLINK_RATIO_LOW;
-        }
-        const leftBlink = remapRangeNoCap(
-            this._blinkBase.pos.x,
-            Poses.BLINK_RATIO_LOW + leftRangeOffset,
-            Poses.BLINK_RATIO_HIGH + leftRangeOffset,
-            0, 1
-        );
-        this._leftBlinkArr.push(this._blinkBase.pos.x);
+        this._faceMeasurement.leftEye = this._blinkBase.pos.x;
+        this._faceMeasurement.rightEye = this._blinkBase.pos.y;
+        let leftBlink, rightBlink;
+        if (this._faceCalibration) {
+            leftBlink = remapRangeNoCap(this._blinkBase.pos.x,
+                this._faceCalibration.leftEyeOpen, this._faceCalibration.leftEyeClosed, 0, 1);
+            rightBlink = remapRangeNoCap(this._blinkBase.pos.y,
+                this._faceCalibration.rightEyeOpen, this._faceCalibration.rightEyeClosed, 0, 1);
+        } else {
+            let leftRangeOffset = 0;
+            if (this._leftBlinkArr.length() > 4) {
+                leftRangeOffset = this._leftBlinkArr.values.reduce(
+                    (p, c, i) => p + (c - p) / (i + 1), 0) - Poses.BLINK_RATIO_LOW;
+            }
+            leftBlink = remapRangeNoCap(
+                this._blinkBase.pos.x,
+                Poses.BLINK_RATIO_LOW + leftRangeOffset,
+                Poses.BLINK_RATIO_HIGH + leftRangeOffset,
+                0, 1
+            );
 
-        let rightRangeOffset = 0;
-        if (this._rightBlinkArr.length() > 4) {
-            rightRangeOffset = this._rightBlinkArr.values.reduce(
-                (p, c, i) => p + (c - p) / (i + 1), 0) - Poses.BLINK_RATIO_LOW;
+            let rightRangeOffset = 0;
+            if (this._rightBlinkArr.length() > 4) {
+                rightRangeOffset = this._rightBlinkArr.values.reduce(
+                    (p, c, i) => p + (c - p) / (i + 1), 0) - Poses.BLINK_RATIO_LOW;
+            }
+            rightBlink = remapRangeNoCap(
+                this._blinkBase.pos.y,
+                Poses.BLINK_RATIO_LOW + rightRangeOffset,
+                Poses.BLINK_RATIO_HIGH + rightRangeOffset,
+                0, 1
+            );
         }
-        const rightBlink = remapRangeNoCap(
-            this._blinkBase.pos.y,
-            Poses.BLINK_RATIO_LOW + rightRangeOffset,
-            Poses.BLINK_RATIO_HIGH + rightRangeOffset,
-            0, 1
-        );
+        this._leftBlinkArr.push(this._blinkBase.pos.x);
         this._rightBlinkArr.push(this._blinkBase.pos.y);
 
         const blink = this.lRLink(leftBlink, rightBlink);
@@ -630,34 +819,252 @@ export class Poses {
             leftBlink, rightBlink, blink, 0));
 
         const mouthWidth = this._keyPoints.mouth_left.pos.subtract(this._keyPoints.mouth_right.pos).length();
-        const mouthRange1 = remapRangeWithCap(
-            this._keyPoints.mouth_top_first.pos.subtract(this._keyPoints.mouth_bottom_first.pos)
-                .length() * Poses.MOUTH_WIDTH_BASELINE / mouthWidth,
-            Poses.MOUTH_MP_RANGE_LOW, Poses.MOUTH_MP_RANGE_HIGH,
-            0, 1
-        );
-        const mouthRange2 = remapRangeWithCap(
-            this._keyPoints.mouth_top_second.pos.subtract(this._keyPoints.mouth_bottom_second.pos)
-                .length() * Poses.MOUTH_WIDTH_BASELINE / mouthWidth,
-            Poses.MOUTH_MP_RANGE_LOW, Poses.MOUTH_MP_RANGE_HIGH,
-            0, 1
+        // Lip gaps / mouth width
+        const mouthGaps = [
+            this._keyPoints.mouth_top_first.pos.subtract(this._keyPoints.mouth_bottom_first.pos).length(),
+            this._keyPoints.mouth_top_second.pos.subtract(this._keyPoints.mouth_bottom_second.pos).length(),
+            this._keyPoints.mouth_top_third.pos.subtract(this._keyPoints.mouth_bottom_third.pos).length(),
+        ].map((v) => v / mouthWidth);
+        this._faceMeasurement.mouth = mouthGaps.reduce((p, c) => p + c, 0) / mouthGaps.length;
+        const mouthClosed = this._faceCalibration?.mouthClosed ??
+            Poses.MOUTH_MP_RANGE_LOW / Poses.MOUTH_WIDTH_BASELINE;
+        const mouthWide = this._faceCalibration?.mouthOpen ??
+            Poses.MOUTH_MP_RANGE_HIGH / Poses.MOUTH_WIDTH_BASELINE;
+        const mouthOpen = mouthGaps.reduce((p, c) => p + remapRangeWithCap(
+            c, mouthClosed, mouthWide, 0, 1), 0) / mouthGaps.length;
+        this._faceCalibrator?.add({...this._faceMeasurement});
+        // Confidence of visual mouth tracking, lower when face turns away
+        const faceCameraAngle = degreeBetweenVectors(
+            normalizedLandmarkToVector(this.faceNormal),
+            new Vector3(0, 0, -1),
+            true);
+        const mouthConfidence = remapRangeWithCap(
+            Math.max(Math.abs(faceCameraAngle.x), Math.abs(faceCameraAngle.y)),
+            Poses.MOUTH_CONFIDENT_ANGLE, Poses.MOUTH_UNRELIABLE_ANGLE,
+            1, 0
         );
-        const mouthRange3 = remapRangeWithCap(
-            this._keyPoints.mouth_top_third.pos.subtract(this._keyPoints.mouth_bottom_third.pos)
-                .length() * Poses.MOUTH_WIDTH_BASELINE / mouthWidth,
-            Poses.MOUTH_MP_RANGE_LOW, Poses.MOUTH_MP_RANGE_HIGH,
-            0, 1
+        this._boneRotations['mouth'].set(new Quaternion(mouthOpen, mouthConfidence, 0, 0));
+
+        this.calcVisemes(mouthOpen, mouthWidth);
+
+        const leftBrow = this.calcBrow(true);
+        const rightBrow = this.calcBrow(false);
+
+        // ARKit blendshapes. Blink and brows keep the per-user baselines above.
+        const blendshapes = solveBlendshapes(this.faceLandmarks.map((v) => v.pos));
+        blendshapes.eyeBlinkLeft = rangeCap(leftBlink, 0, 1);
+        blendshapes.eyeBlinkRight = rangeCap(rightBlink, 0, 1);
+        if (leftBrow && rightBrow) {
+            blendshapes.browInnerUp = (leftBrow.innerRaise + rightBrow.innerRaise) / 2;
+            blendshapes.browOuterUpLeft = leftBrow.outerRaise;
+            blendshapes.browOuterUpRight = rightBrow.outerRaise;
+            blendshapes.browDownLeft = Math.max(leftBrow.lower, leftBrow.furrow);
+            blendshapes.browDownRight = Math.max(rightBrow.lower, rightBrow.furrow);
+        }
+        packBlendshapes(blendshapes, this._boneRotations);
+
+        packEmotions(this._emotionClassifier.update(scoreEmotions(blendshapes)), this._boneRotations);
+    }
+
+    /**
+     * Brow raise, lower and furrow relative to a slowly adapting neutral.
+     * Measured in eye width units, so distance to camera does not matter.
+     * @param isLeft Left or right brow
+     */
+    private calcBrow(isLeft: boolean) {
+        const side = isLeft ? 'left' : 'right';
+        const k = this._keyPoints;
+        const eyeTop = isLeft ? k.left_eye_top.pos : k.right_eye_top.pos;
+        const eyeWidth = isLeft ?
+            k.left_eye_inner.pos.subtract(k.left_eye_outer.pos).length() :
+            k.right_eye_inner.pos.subtract(k.right_eye_outer.pos).length();
+        if (eyeWidth === 0) return null;
+
+        const inner = isLeft ? k.left_brow_inner.pos : k.right_brow_inner.pos;
+        const middle = isLeft ? k.left_brow_middle.pos : k.right_brow_middle.pos;
+        const outer = isLeft ? k.left_brow_outer.pos : k.right_brow_outer.pos;
+        const current = new Vector3(
+            inner.subtract(eyeTop).length() / eyeWidth,
+            (middle.subtract(eyeTop).length() + outer.subtract(eyeTop).length()) / 2 / eyeWidth,
+            inner.subtract(k.nose_bridge.pos).length() / eyeWidth,
         );
-        this._boneRotations['mouth'].set(new Quaternion(
-            (mouthRange1 + mouthRange2 + mouthRange3) / 3, 0, 0, 0));
+
+        let neutral = this._browNeutral[side];
+        if (!neutral) {
+            neutral = current.clone();
+            this._browNeutral[side] = neutral;
+        }
+        const delta = current.subtract(neutral);
+        const raise = (delta.x + delta.y) / 2;
+        const ret = {
+            innerRaise: remapRangeWithCap(delta.x, 0, Poses.BROW_RAISE_RANGE, 0, 1),
+            outerRaise: remapRangeWithCap(delta.y, 0, Poses.BROW_RAISE_RANGE, 0, 1),
+            raise: remapRangeWithCap(raise, 0, Poses.BROW_RAISE_RANGE, 0, 1),
+            lower: remapRangeWithCap(-raise, 0, Poses.BROW_LOWER_RANGE, 0, 1),
+            furrow: remapRangeWithCap(-delta.z, 0, Poses.BROW_FURROW_RANGE, 0, 1),
+        };
+        // Adapt only when close to neutral, so holding an expression does not become the new neutral
+        if (ret.raise < 0.5 && ret.lower < 0.5 && ret.furrow < 0.5) {
+            neutral.addInPlace(delta.scale(Poses.BROW_NEUTRAL_ADAPTION));
+        }
+
+        this._boneRotations[`${side}Brow`].set(new Quaternion(ret.raise, ret.lower, ret.furrow, 0));
+        return ret;
+    }
+
+    /**
+     * Start capturing frames for a face calibration step. Previous samples of the step are discarded.
+     * @param step Calibration step the user is performing
+     */
+    public startFaceCalibrationStep(step: FaceCalibrationStep) {
+        if (!this._faceCalibrator) this._faceCalibrator = new FaceCalibrator();
+        this._faceCalibrator.step = step;
+    }
+
+    /**
+     * Stop capturing frames.
+     * @return Number of frames captured for the step
+     */
+    public stopFaceCalibrationStep() {
+        if (!this._faceCalibrator?.step) return 0;
+        const step = this._faceCalibrator.step;
+        this._faceCalibrator.step = null;
+        return this._faceCalibrator.count(step);
+    }
+
+    /**
+     * Build a profile from captured steps and start using it.
+     * Throws if a step is missing or captured values are implausible.
+     */
+    public finishFaceCalibration() {
+        if (!this._faceCalibrator) throw Error("Face calibration not started!");
+        const profile = this._faceCalibrator.build();
+        this._faceCalibrator = null;
+        this._faceCalibration = profile;
+        return profile;
+    }
+
+    public cancelFaceCalibration() {
+        this._faceCalibrator = null;
+    }
+
+    /**
+     * @param profile Stored profile, or null to go back to default baselines
+     */
+    public setFaceCalibration(profile: Nullable<FaceCalibrationProfile>) {
+        this._faceCalibration = profile;
+    }
+
+    /**
+     * Start capturing body measurements. The user should hold the pose with full body visible.
+     * @param pose T-pose or A-pose
+     */
+    public startBodyCalibration(pose: BodyCalibrationPose) {
+        this._bodyCalibrator = new BodyCalibrator(pose);
+    }
+
+    /**
+     * Build a profile from captured frames and start using it.
+     * Throws if no frame had the full body visible.
+     */
+    public finishBodyCalibration() {
+        if (!this._bodyCalibrator) throw Error("Body calibration not started!");
+        const calibrator = this._bodyCalibrator;
+        this._bodyCalibrator = null;
+        const profile = calibrator.build();
+        this.setBodyCalibration(profile);
+        return profile;
+    }
+
+    public cancelBodyCalibration() {
+        this._bodyCalibrator = null;
+    }
+
+    /**
+     * @param profile Stored profile, or null to go back to default rest pose and root translation
+     */
+    public setBodyCalibration(profile: Nullable<BodyCalibrationProfile>) {
+        this._bodyCalibration = profile;
+        // Calibrated hips position becomes origin of root translation
+        this.midHipInitOffset = profile ? Object.freeze({
+            x: profile.hipImagePosition[0], y: profile.hipImagePosition[1], z: 0,
+        }) : null;
+        this.updateRootScale();
+        // Root translation has a new origin and scale
+        for (const c of Object.values(this._footContacts)) c.reset();
+        this._groundHeight = null;
+    }
+
+    /**
+     * @param height Distance from hips to ground of current avatar in meters
+     */
+    public setAvatarHipHeight(height: number) {
+        this._avatarHipHeight = height;
+        this.updateRootScale();
+    }
+
+    /**
+     * @param overrides Per model limits replacing defaults, null for a bone removes its limit
+     */
+    public setJointLimits(overrides: JointLimitOverrides = {}) {
+        this._jointLimits = mergeJointLimits(overrides);
+    }
+
+    // Image units to avatar meters. Uncalibrated translation is used as is.
+    private updateRootScale() {
+        this._rootScale = this._bodyCalibration && this._avatarHipHeight > 0 && this._bodyCalibration.hipImageHeight > 0 ?
+            this._avatarHipHeight / this._bodyCalibration.hipImageHeight : 1;
+    }
+
+    /**
+     * Forget per-user brow neutral, e.g. when a different person is in front of the camera.
+     */
+    public resetBrowNeutral() {
+        this._browNeutral = {left: null, right: null};
+    }
+
+    /**
+     * Classify mouth shape into A/I/U/E/O from opening and width.
+     * Wide mouth leans to I/E, narrow mouth to U/O, more opening moves from I/U to E/O.
+     * @param mouthOpen Mouth opening in [0, 1]
+     * @param mouthWidth Distance between mouth corners
+     */
+    private calcVisemes(mouthOpen: number, mouthWidth: number) {
+        const faceWidth = this._keyPoints.left_face_oval.pos.subtract(
+            this._keyPoints.right_face_oval.pos).length();
+        if (faceWidth === 0) return;
+
+        const ratio = mouthWidth / faceWidth;
+        const wide = remapRangeWithCap(ratio,
+            Poses.MOUTH_FACE_RATIO_NEUTRAL, Poses.MOUTH_FACE_RATIO_WIDE, 0, 1);
+        const narrow = remapRangeWithCap(ratio,
+            Poses.MOUTH_FACE_RATIO_NEUTRAL, Poses.MOUTH_FACE_RATIO_NARROW, 0, 1);
+        // Closed lips only form I/U when slightly parted
+        const active = remapRangeWithCap(mouthOpen, 0, 0.2, 0, 1);
+
+        const a = mouthOpen * Math.max(0, 1 - wide - narrow);
+        const i = active * wide * (1 - mouthOpen);
+        const u = active * narrow * (1 - mouthOpen);
+        const e = mouthOpen * wide;
+        const o = mouthOpen * narrow;
+        const sum = Math.max(1, a + i + u + e + o);
+
+        this._visemeAIU.updatePosition(new Vector3(a / sum, i / sum, u / sum));
+        this._visemeEO.updatePosition(new Vector3(e / sum, o / sum, 0));
+        this._boneRotations['visemeAIU'].set(new Quaternion(
+            rangeCap(this._visemeAIU.pos.x, 0, 1),
+            rangeCap(this._visemeAIU.pos.y, 0, 1),
+            rangeCap(this._visemeAIU.pos.z, 0, 1), 0));
+        this._boneRotations['visemeEO'].set(new Quaternion(
+            rangeCap(this._visemeEO.pos.x, 0, 1),
+            rangeCap(this._visemeEO.pos.y, 0, 1), 0, 0));
     }
 
     private calcPoseBones() {
         // Do not calculate pose if no visible face. It can lead to wierd poses.
         if (!this.cloneableInputResults?.poseLandmarks) return;
         // Use hips as the starting point. Rotation of hips is always on XZ plane.
-        // Upper chest is not used.
-        // TODO derive neck and chest from spine and head.
+        // Torso rotation is shared by spine, chest and upper chest.
 
         const leftHip = this.worldPoseLandmarks[POSE_LANDMARKS.LEFT_HIP].pos;
         const rightHip = this.worldPoseLandmarks[POSE_LANDMARKS.RIGHT_HIP].pos;
@@ -671,8 +1078,13 @@ export class Poses {
         const hipLine = leftHip.subtract(rightHip);
         const hipLineProj = projectVectorOnPlane(worldXZPlane, hipLine);
         const hipRotationAngle = Math.atan2(hipLineProj.z, hipLineProj.x);
-        this._boneRotations['hips'].set(Quaternion.FromEulerAngles(
-            0, hipRotationAngle, 0));
+        this._hipFrame = Quaternion.FromEulerAngles(0, hipRotationAngle, 0);
+        this._boneRotations['hips'].set(this._hipFrame.clone());
+
+        if (this._bodyCalibrator) {
+            const measurement = this.measureBody(this._bodyCalibrator.pose);
+            if (measurement) this._bodyCalibrator.add(measurement);
+        }
 
         // Chest/Shoulder
         const shoulderNormR = Plane.FromPoints(rightShoulder, leftShoulder, rightHip).normal;
@@ -691,10 +1103,15 @@ export class Poses {
                 Vector3.Cross(shoulderNormal, newSpineBasisY),
             ]);
 
-            this._boneRotations['spine'].set(reverseRotation(quaternionBetweenBases(
+            this.distributeTorsoRotation(reverseRotation(quaternionBetweenBases(
                 spineBasis, newSpineBasis, spineParentQuaternion), AXIS.yz));
         }
 
+        // Clavicles
+        for (const k of LR) {
+            this.calcShoulderBone(k === "left");
+        }
+
         this.calcWristBones();
 
         // Arms
@@ -706,9 +1123,11 @@ export class Poses {
             const upperArmKey = `${k}UpperArm`;
             const shoulderLandmark = this.worldPoseLandmarks[POSE_LANDMARKS[`${k.toUpperCase()}_SHOULDER` as keyof typeof POSE_LANDMARKS]].pos;
             const elbowLandmark = this.worldPoseLandmarks[POSE_LANDMARKS[`${k.toUpperCase()}_ELBOW` as keyof typeof POSE_LANDMARKS]].pos;
-            const wristLandmark = this.worldPoseLandmarks[POSE_LANDMARKS[`${k.toUpperCase()}_WRIST` as keyof typeof POSE_LANDMARKS]].pos;
+            const wristLandmark = this.limitElbow(isLeft, shoulderLandmark, elbowLandmark,
+                this.worldPoseLandmarks[POSE_LANDMARKS[`${k.toUpperCase()}_WRIST` as keyof typeof POSE_LANDMARKS]].pos);
 
-            const upperArmDir = elbowLandmark.subtract(shoulderLandmark).normalize();
+            const upperArmDir = this.applyRestOffset(upperArmKey,
+                elbowLandmark.subtract(shoulderLandmark).normalize());
             const upperArmParentQuaternion = this.applyQuaternionChain(upperArmKey, false);
             const upperArmBasis = this._boneRotations[upperArmKey].rotateBasis(
                 upperArmParentQuaternion);
@@ -721,7 +1140,8 @@ export class Poses {
             // This is a combination of spherical coordinates rotation and rotation between bases.
             const handNormal = isLeft ? this.leftHandNormal : this.rightHandNormal;
             const lowerArmKey = `${k}LowerArm`;
-            const lowerArmDir = wristLandmark.subtract(elbowLandmark).normalize();
+            const lowerArmDir = this.applyRestOffset(lowerArmKey,
+                wristLandmark.subtract(elbowLandmark).normalize());
             const lowerArmPrevQuaternion = this.applyQuaternionChain(lowerArmKey, false);
             const lowerArmBasis = this._boneRotations[lowerArmKey].rotateBasis(
                 lowerArmPrevQuaternion);
@@ -733,9 +1153,11 @@ export class Poses {
 
             const firstQuaternion = reverseRotation(sphericalToQuaternion(
                 lowerArmBasis, theta, phi, lowerArmPrevQuaternion), AXIS.yz);
+            // Lower arm takes a share of the wrist roll, hand follows with the rest
             const finalQuaternion = this.applyXRotationWithChild(
                 lowerArmKey, lowerArmPrevQuaternion, firstQuaternion,
-                handNormal, lowerArmBasis);
+                handNormal, lowerArmBasis,
+                rangeCap(this._boneOptions.armTwistRatio, 0, 1), this._boneOptions.twistLimits.lowerArm);
 
             this._boneRotations[lowerArmKey].set(finalQuaternion);
         }
@@ -754,7 +1176,13 @@ export class Poses {
             const kneeLandmark = this.worldPoseLandmarks[thisLandmarks[`${k.toUpperCase()}_KNEE` as keyof typeof thisLandmarks]].pos;
             const ankleLandmark = this.worldPoseLandmarks[thisLandmarks[`${k.toUpperCase()}_ANKLE` as keyof typeof thisLandmarks]].pos;
 
-            const upperLegDir = kneeLandmark.subtract(hipLandmark).normalize();
+            let kneePos = kneeLandmark, anklePos = ankleLandmark;
+            if (this._boneOptions.legIK) {
+                [kneePos, anklePos] = this.solveLegIK(isLeft, hipLandmark, kneeLandmark, ankleLandmark);
+            }
+
+            const upperLegDir = this.applyRestOffset(upperLegKey,
+                kneePos.subtract(hipLandmark).normalize());
             const upperLegParentQuaternion = this.applyQuaternionChain(upperLegKey, false);
             const upperLegBasis = this._boneRotations[upperLegKey].rotateBasis(
                 upperLegParentQuaternion);
@@ -762,7 +1190,8 @@ export class Poses {
             this._boneRotations[upperLegKey].set(reverseRotation(sphericalToQuaternion(
                 upperLegBasis, theta, phi, upperLegParentQuaternion), AXIS.yz));
 
-            const lowerLegDir = ankleLandmark.subtract(kneeLandmark).normalize();
+            const lowerLegDir = this.applyRestOffset(lowerLegKey,
+                anklePos.subtract(kneePos).normalize());
             const lowerLegPrevQuaternion = this.applyQuaternionChain(lowerLegKey, false);
             const lowerLegBasis = this._boneRotations[lowerLegKey].rotateBasis(
                 lowerLegPrevQuaternion);
@@ -775,19 +1204,258 @@ export class Poses {
         this.calcFeetBones(false);
     }
 
+    /**
+     * Clamp elbow bend as a hinge, before lower arm is solved.
+     * Within forearm roll range, palm normal never points laterally, so it tells hyperextension from flexion.
+     * @param isLeft Left or right arm
+     * @param shoulder Shoulder landmark
+     * @param elbow Elbow landmark
+     * @param wrist Wrist landmark
+     * @return Limited wrist position
+     */
+    private limitElbow(isLeft: boolean, shoulder: Vector3, elbow: Vector3, wrist: Vector3) {
+        const limit = this._jointLimits[`${isLeft ? 'left' : 'right'}LowerArm`];
+        const hinge = this._boneOptions.jointLimits ? limit?.hinge : null;
+        if (!hinge) return wrist;
+
+        // Back of hand for right hand, palm for left hand. Side factors cancel out with the bend plane normal.
+        let hyperextensionAxis: Nullable<Vector3> = null;
+        if (isLeft ? this.cloneableInputResults?.leftHandLandmarks : this.cloneableInputResults?.rightHandLandmarks) {
+            const hand = isLeft ? this.leftHandLandmarks : this.rightHandLandmarks;
+            const handWrist = hand[HAND_LANDMARKS.WRIST].pos;
+            hyperextensionAxis = Vector3.Cross(
+                hand[HAND_LANDMARKS.INDEX_FINGER_MCP].pos.subtract(handWrist),
+                hand[HAND_LANDMARKS.PINKY_MCP].pos.subtract(handWrist));
+        }
+
+        const lowerArm = wrist.subtract(elbow);
+        return elbow.add(applyHingeLimit(elbow.subtract(shoulder), lowerArm, hinge, hyperextensionAxis)
+            .scaleInPlace(lowerArm.length()));
+    }
+
+    /**
+     * Solve knee and ankle positions with two bone IK.
+     * Planted feet stay where they landed, so they do not skate when hips move. No foot goes below ground.
+     * Positions are hips centered world landmarks. Root translation of this frame is added to compare across frames.
+     * Without root translation, feet are not planted, since locked feet would follow the hips.
+     * @param isLeft Left or right leg
+     * @param hip Hip landmark
+     * @param knee Knee landmark, used as bending direction
+     * @param ankle Ankle landmark, target of unplanted foot
+     * @return Knee and ankle positions
+     */
+    private solveLegIK(isLeft: boolean, hip: Vector3, knee: Vector3, ankle: Vector3) {
+        const side = isLeft ? 'left' : 'right';
+        const upperLength = this._bodyCalibration?.limbLengths[`${side}UpperLeg`] ?? knee.subtract(hip).length();
+        const lowerLength = this._bodyCalibration?.limbLengths[`${side}LowerLeg`] ?? ankle.subtract(knee).length();
+        const rootOffset = this.calcWorldRootOffset();
+
+        const contact = this._footContacts[side];
+        if (!rootOffset || this._frameTime === null) {
+            contact.reset();
+            return solveTwoBoneIK(hip, ankle, upperLength, lowerLength, knee);
+        }
+        const imageAnkle = this.poseLandmarks[isLeft ?
+            POSE_LANDMARKS_LEFT.LEFT_ANKLE : POSE_LANDMARKS_RIGHT.RIGHT_ANKLE].pos;
+        contact.update(imageAnkle, ankle.add(rootOffset), this._frameTime);
+
+        const target = ankle.add(rootOffset);
+        if (contact.planted && contact.lockedPosition) {
+            const locked = contact.lockedPosition;
+            this._groundHeight = this._groundHeight === null ? locked.y :
+                this._groundHeight + (locked.y - this._groundHeight) * Poses.GROUND_ADAPTION;
+            target.copyFrom(locked);
+            target.y = this._groundHeight;
+        } else if (this._groundHeight !== null) {
+            target.y = Math.max(target.y, this._groundHeight);
+        }
+        return solveTwoBoneIK(hip, target.subtractInPlace(rootOffset), upperLength, lowerLength, knee);
+    }
+
+    /**
+     * Hip translation of this frame from its initial image position, in world landmark meters.
+     * Image offset is scaled by calibrated hip height, or by torso length of this frame without calibration.
+     * @return null if hips, or shoulders without calibration, are not visible
+     */
+    private calcWorldRootOffset(): Nullable<Vector3> {
+        // Filtered landmarks keep their last visibility, check this frame's input instead
+        const input = this.cloneableInputResults?.poseLandmarks;
+        const visible = (idx: number) => (input?.[idx].visibility || 0) > VISIBILITY_THRESHOLD;
+        if (!this.midHipInitOffset || !visible(POSE_LANDMARKS.LEFT_HIP) || !visible(POSE_LANDMARKS.RIGHT_HIP))
+            return null;
+
+        const mid = (landmarks: FilteredLandmarkVectorList, left: number, right: number) =>
+            landmarks[left].pos.add(landmarks[right].pos).scaleInPlace(0.5);
+        const midHip = mid(this.poseLandmarks, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP);
+
+        let scale: number;
+        if (this._bodyCalibration && this._bodyCalibration.hipImageHeight > 0) {
+            scale = this._bodyCalibration.hipHeight / this._bodyCalibration.hipImageHeight;
+        } else {
+            if (!visible(POSE_LANDMARKS.LEFT_SHOULDER) || !visible(POSE_LANDMARKS.RIGHT_SHOULDER)) return null;
+            const imageTorso = mid(this.poseLandmarks, POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.RIGHT_SHOULDER)
+                .subtract(midHip);
+            imageTorso.z = 0;    // No depth info
+            const worldTorso = mid(this.worldPoseLandmarks, POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.RIGHT_SHOULDER)
+                .subtract(mid(this.worldPoseLandmarks, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP));
+            if (imageTorso.length() < Number.EPSILON) return null;
+            scale = worldTorso.length() / imageTorso.length();
+        }
+
+        return new Vector3(
+            midHip.x - this.midHipInitOffset.x,
+            midHip.y - this.midHipInitOffset.y,
+            0,
+        ).scaleInPlace(scale);
+    }
+
+    /**
+     * Split torso rotation into spine, chest and upper chest, so bending and twisting are not at one joint.
+     * Partial rotations around the same axis add up to the full rotation.
+     * @param q Rotation of the whole torso relative to hips
+     */
+    private distributeTorsoRotation(q: Quaternion) {
+        const bones = Object.keys(Poses.SPINE_WEIGHTS).filter((k) => this._boneRotations[k]);
+        const total = bones.reduce((p, k) => p + Poses.SPINE_WEIGHTS[k], 0);
+        for (const k of bones) {
+            this._boneRotations[k].set(Quaternion.Slerp(
+                Quaternion.Identity(), q, Poses.SPINE_WEIGHTS[k] / total));
+        }
+    }
+
+    /**
+     * Raise or drop clavicle by shoulder height relative to ear, against a slowly adapting neutral.
+     * @param isLeft Left or right shoulder
+     */
+    private calcShoulderBone(isLeft: boolean) {
+        const side = isLeft ? 'left' : 'right';
+        const key = `${side}Shoulder`;
+        if (!this._boneRotations[key]) return;
+        const inputLandmarks = this.cloneableInputResults?.poseLandmarks;
+        const shoulderIdx = isLeft ? POSE_LANDMARKS.LEFT_SHOULDER : POSE_LANDMARKS.RIGHT_SHOULDER;
+        const earIdx = isLeft ? POSE_LANDMARKS.LEFT_EAR : POSE_LANDMARKS.RIGHT_EAR;
+        if (!inputLandmarks ||
+            (inputLandmarks[shoulderIdx].visibility || 0) < VISIBILITY_THRESHOLD ||
+            (inputLandmarks[earIdx].visibility || 0) < VISIBILITY_THRESHOLD) return;
+
+        const world = (i: number) => this.worldPoseLandmarks[i].pos;
+        const leftShoulder = world(POSE_LANDMARKS.LEFT_SHOULDER), rightShoulder = world(POSE_LANDMARKS.RIGHT_SHOULDER);
+        const shoulderWidth = leftShoulder.subtract(rightShoulder).length();
+        if (shoulderWidth === 0) return;
+        const up = leftShoulder.add(rightShoulder).scaleInPlace(0.5)
+            .subtractInPlace(world(POSE_LANDMARKS.LEFT_HIP).add(world(POSE_LANDMARKS.RIGHT_HIP)).scaleInPlace(0.5))
+            .normalize();
+        const height = Vector3.Dot(world(earIdx).subtract(world(shoulderIdx)), up) / shoulderWidth;
+
+        if (this._shoulderNeutral[side] === null) this._shoulderNeutral[side] = height;
+        // Shoulder closer to ear is a shrug
+        const shrug = this._shoulderNeutral[side]! - height;
+        const angle = rangeCap(shrug * Poses.SHOULDER_SHRUG_SCALE,
+            -Poses.SHOULDER_MAX_DROP, Poses.SHOULDER_MAX_RAISE);
+        if (Math.abs(angle) < Poses.SHOULDER_MAX_DROP) {
+            this._shoulderNeutral[side]! -= shrug * Poses.SHOULDER_NEUTRAL_ADAPTION;
+        }
+
+        this._boneRotations[key].set(Quaternion.FromEulerAngles(0, 0, isLeft ? -angle : angle));
+    }
+
+    /**
+     * Measure limb lengths and directions for body calibration.
+     * @param pose Pose the user is holding
+     * @return null if any limb is not visible
+     */
+    private measureBody(pose: BodyCalibrationPose): Nullable<BodyMeasurement> {
+        const inputLandmarks = this.cloneableInputResults?.poseLandmarks;
+        if (!inputLandmarks) return null;
+        const limbs: { [bone: string]: [number, number] } = {};
+        const allLandmarks: { [name: string]: number } = {
+            ...POSE_LANDMARKS, ...POSE_LANDMARKS_LEFT, ...POSE_LANDMARKS_RIGHT};
+        for (const k of LR) {
+            const K = k.toUpperCase();
+            const i = (name: string) => allLandmarks[`${K}_${name}`];
+            limbs[`${k}UpperArm`] = [i('SHOULDER'), i('ELBOW')];
+            limbs[`${k}LowerArm`] = [i('ELBOW'), i('WRIST')];
+            limbs[`${k}UpperLeg`] = [i('HIP'), i('KNEE')];
+            limbs[`${k}LowerLeg`] = [i('KNEE'), i('ANKLE')];
+        }
+        for (const [start, end] of Object.values(limbs)) {
+            if ((inputLandmarks[start].visibility || 0) < VISIBILITY_THRESHOLD ||
+                (inputLandmarks[end].visibility || 0) < VISIBILITY_THRESHOLD) return null;
+        }
+
+        const world = (i: number) => this.worldPoseLandmarks[i].pos;
+        const image = (i: number) => this.poseLandmarks[i].pos;
+        const toHipFrame = (v: Vector3) => v.rotateByQuaternionToRef(this._hipFrame, new Vector3());
+        const leftShoulder = world(POSE_LANDMARKS.LEFT_SHOULDER), rightShoulder = world(POSE_LANDMARKS.RIGHT_SHOULDER);
+        const midShoulder = leftShoulder.add(rightShoulder).scaleInPlace(0.5);
+        const midHip = world(POSE_LANDMARKS.LEFT_HIP).add(world(POSE_LANDMARKS.RIGHT_HIP)).scaleInPlace(0.5);
+        const down = midHip.subtract(midShoulder).normalize();
+
+        const ret: BodyMeasurement = {
+            shoulderWidth: leftShoulder.subtract(rightShoulder).length(),
+            hipHeight: 0,
+            limbLengths: {},
+            hipImagePosition: [0, 0],
+            hipImageHeight: 0,
+            directions: {},
+            idealDirections: {},
+        };
+        for (const [bone, [start, end]] of Object.entries(limbs)) {
+            const limb = world(end).subtract(world(start));
+            ret.limbLengths[bone] = limb.length();
+            ret.directions[bone] = toHipFrame(limb.normalize());
+
+            let ideal = down;
+            if (bone.endsWith('Arm')) {
+                const outward = (bone.startsWith('left') ?
+                    leftShoulder.subtract(rightShoulder) : rightShoulder.subtract(leftShoulder)).normalize();
+                ideal = pose === 'T' ? outward : outward.scale(Math.cos(A_POSE_ARM_ANGLE))
+                    .addInPlace(down.scale(Math.sin(A_POSE_ARM_ANGLE))).normalize();
+            }
+            ret.idealDirections[bone] = toHipFrame(ideal);
+        }
+        const l = ret.limbLengths;
+        ret.hipHeight = (l.leftUpperLeg + l.leftLowerLeg + l.rightUpperLeg + l.rightLowerLeg) / 2;
+
+        const midHipImage = image(POSE_LANDMARKS.LEFT_HIP).add(image(POSE_LANDMARKS.RIGHT_HIP)).scaleInPlace(0.5);
+        const midAnkleImage = image(POSE_LANDMARKS_LEFT.LEFT_ANKLE)
+            .add(image(POSE_LANDMARKS_RIGHT.RIGHT_ANKLE)).scaleInPlace(0.5);
+        ret.hipImagePosition = [midHipImage.x, midHipImage.y];
+        ret.hipImageHeight = Math.abs(midHipImage.y - midAnkleImage.y);
+        return ret;
+    }
+
+    /**
+     * Correct a limb direction by the user's calibrated rest pose.
+     * @param boneKey Key in _boneRotations
+     * @param dir Limb direction in world space
+     */
+    private applyRestOffset(boneKey: string, dir: Vector3) {
+        const offset = this._bodyCalibration?.restOffsets[boneKey];
+        if (!offset) return dir;
+        const q = Quaternion.Inverse(this._hipFrame)
+            .multiplyInPlace(new Quaternion(...offset))
+            .multiplyInPlace(this._hipFrame);
+        return dir.rotateByQuaternionToRef(q, new Vector3());
+    }
+
     /**
      * thisKey: key in _boneRotations
      * prevQuaternion: Parent cumulated rotation quaternion
      * firstQuaternion: Rotation quaternion calculated without applying X rotation
      * normal: A normal pointing to local -y
      * thisBasis: basis on this node after prevQuaternion is applied
+     * twistRatio: share of X rotation on this node, the rest is left to child
+     * twistLimit: maximum X rotation in radians
      */
     private applyXRotationWithChild(
         thisKey: string,
         prevQuaternion: Quaternion,
         firstQuaternion: Quaternion,
         normal: Vector3,
-        thisBasis: Basis
+        thisBasis: Basis,
+        twistRatio: number,
+        twistLimit: number
     ) {
         const thisRotatedBasis = this._boneRotations[thisKey].rotateBasis(
             prevQuaternion.multiply(reverseRotation(firstQuaternion, AXIS.yz)));
@@ -817,7 +1485,8 @@ export class Poses {
         // }
 
         const thisXRotatedBasis = thisRotatedBasis.rotateByQuaternion(
-            Quaternion.RotationAxis(thisRotatedBasis.x.clone(), (xAngle - xPrev) * 0.5));
+            Quaternion.RotationAxis(thisRotatedBasis.x.clone(),
+                rangeCap((xAngle - xPrev) * twistRatio, -twistLimit, twistLimit)));
         // The quaternion needs to be calculated in local coordinate system
         const secondQuaternion = quaternionBetweenBases(
             thisBasis, thisXRotatedBasis, prevQuaternion
@@ -874,8 +1543,13 @@ export class Poses {
             const wristRotationQuaternionRaw = quaternionBetweenBases(basis1, basis2);
 
             const wristRotationQuaternion = reverseRotation(wristRotationQuaternionRaw, AXIS.yz);
-            if (!firstPass)
-                thisWristRotation.set(wristRotationQuaternion);
+            if (!firstPass) {
+                // Clamp roll relative to lower arm, arms lie on X axis
+                const [swing, , twistAngle] = decomposeSwingTwist(wristRotationQuaternion, Vector3.Right());
+                const handLimit = this._boneOptions.twistLimits.hand;
+                thisWristRotation.set(swing.multiply(Quaternion.RotationAxis(
+                    Vector3.Right(), rangeCap(twistAngle, -handLimit, handLimit))));
+            }
         }
     }
 
@@ -932,6 +1606,55 @@ export class Poses {
         }
     }
 
+    /**
+     * @param pose Idle rotations of lost limbs, bones not in it use the default rest pose
+     */
+    public setIdlePose(pose: IdlePose = {}) {
+        this._idlePose = pose;
+    }
+
+    private fadeLimbs() {
+        const time = performance.now() / 1000;
+        const idle = (bone: string) => this._idlePose[bone] ?
+            Quaternion.FromArray(this._idlePose[bone]) :
+            cloneableQuaternionToQuaternion(this._initBoneRotations[bone]);
+        for (const k of LR) {
+            const isLeft = k === 'left';
+            // Holistic doesn't reset hand landmarks when invisible
+            // So we infer invisibility from wrist landmark and current hand results
+            const visible = {
+                hand: (this.cloneableInputResults?.poseLandmarks[isLeft ?
+                    POSE_LANDMARKS.LEFT_WRIST : POSE_LANDMARKS.RIGHT_WRIST].visibility || 0) >= VISIBILITY_THRESHOLD &&
+                    !!(isLeft ? this.cloneableInputResults?.leftHandLandmarks :
+                        this.cloneableInputResults?.rightHandLandmarks),
+                arm: this.shallUpdateArm(isLeft),
+                leg: this.shallUpdateLegs(isLeft),
+            };
+            for (const g of LIMB_GROUPS) {
+                const key = `${k}${g}`;
+                if (!this._limbFaders[key]) this._limbFaders[key] = new LimbFader(limbGroupBones(g, isLeft));
+                this._limbFaders[key].update(
+                    this._boneRotations, visible[g], idle, this._boneOptions.limbFade[g], time);
+            }
+        }
+    }
+
+    private calcGestures() {
+        const hands = {
+            left: [this.leftHandLandmarks, this.cloneableInputResults?.leftHandLandmarks],
+            right: [this.rightHandLandmarks, this.cloneableInputResults?.rightHandLandmarks],
+        } as const;
+        const time = performance.now() / 1000;
+        const gestures: { [side: string]: Nullable<Gesture> } = {};
+        for (const [k, [landmarks, input]] of Object.entries(hands)) {
+            // Filtered landmarks keep the last hand, so only classify when it is tracked in this frame
+            const gesture = input ? classifyGesture(calcHandFeatures(
+                landmarks.map((l) => l.pos), this._boneRotations, k === 'left')) : null;
+            gestures[k] = this._gestureDebouncers[k].update(gesture, time);
+        }
+        packGestures(gestures.left, gestures.right, this._boneRotations);
+    }
+
     private calcFeetBones(firstPass = true) {
         for (const k of LR) {
             const isLeft = k === 'left';
@@ -1000,7 +1723,7 @@ export class Poses {
                     midHipPos.x - this.midHipInitOffset.x,
                     midHipPos.y - this.midHipInitOffset.y,
                     midHipPos.z - this.midHipInitOffset.z,
-                ))
+                ).scaleInPlace(this._rootScale))
                 // TODO: delta_x instead of x
                 this.midHipPos = vectorToNormalizedLandmark(this.midHipOffset.pos);
             }
@@ -1307,6 +2030,20 @@ export class Poses {
         this._initBoneRotations['iris'] = new CloneableQuaternion(
             Quaternion.Identity(), new Basis(null));
 
+        // Expressions
+        this._initBoneRotations['visemeAIU'] = new CloneableQuaternion(
+            new Quaternion(0, 0, 0, 0), new Basis(null));
+        this._initBoneRotations['visemeEO'] = new CloneableQuaternion(
+            new Quaternion(0, 0, 0, 0), new Basis(null));
+        this._initBoneRotations['leftBrow'] = new CloneableQuaternion(
+            new Quaternion(0, 0, 0, 0), new Basis(null));
+        this._initBoneRotations['rightBrow'] = new CloneableQuaternion(
+            new Quaternion(0, 0, 0, 0), new Basis(null));
+        initBlendshapeBones(this._initBoneRotations);
+        initEmotionBones(this._initBoneRotations);
+        initGestureBones(this._initBoneRotations);
+        initTrackingBones(this._initBoneRotations);
+
         // Freeze init object
         Object.freeze(this._initBoneRotations);
 
@@ -1384,10 +2121,9 @@ export class Poses {
     private pushBoneRotationBuffer() {
         if (!this._boneRotationUpdateFn) return;
 
-        // Callback
-        const jsonStr = JSON.stringify(this._boneRotations);
-        const arrayBuffer = this.textEncoder.encode(jsonStr);
-        this._boneRotationUpdateFn(Comlink.transfer(arrayBuffer, [arrayBuffer.buffer]));
+        // Callback. Null notifies main thread to read from shared ring.
+        const data = this.boneRotationEncoder.encode(this._boneRotations);
+        this._boneRotationUpdateFn(data ? Comlink.transfer(data, [data.buffer]) : null);
     }
 }
 
@@ -8,6 +8,12 @@ const baseConfig = {
         v3dweb: path.resolve(__dirname, 'src', 'index'),
     },
     module: {
+        parser: {
+            javascript: {
+                // Bundle AudioWorklet modules like workers
+                worker: ["*context.audioWorklet.addModule()", "..."],
+            },
+        },
         rules: [
             {
                 test: /\.ts$/,
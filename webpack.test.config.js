@@ -16,6 +16,12 @@ const config = {
         path: path.resolve(__dirname, test_folder),
     },
     module: {
+        parser: {
+            javascript: {
+                // Bundle AudioWorklet modules like workers
+                worker: ["*context.audioWorklet.addModule()", "..."],
+            },
+        },
         rules: [
             {
                 test: /\.ts$/,